@@ -1,7 +1,40 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { XPost, ArchiveFilter, ProcessStatus, AuditResult, PostType, PurgeProgress } from './types';
-import { auditPosts } from './services/geminiService';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { XPost, ArchiveFilter, ProcessStatus, AuditResult, PostType, PostAttribute, PurgeProgress, DeleterMode, XSession, ArchiveAccount, RateLimitProfile, PurgeJob, PurgeItem, ImportFileReport, ImportProgress, ImportErrorInfo, PreviewMode, QueryNode, QueryError, FilterPreset, RetentionRule, RetentionResult, AuditProgress, AuditSettings, AuditItemError, FlaggedSpan, PiiScanResult, PiiKind, ArchiveTweet, PurgeRun, RunReport, JournalOutcome, FeedSort, ArchiveAnalytics, AgeUnit, RelativeRange, DeleteOutcome } from './types';
+import { auditPosts, createAuditProvider, loadAuditSettings, saveAuditSettings, AuditConfigError } from './services/auditProvider';
+import { clearAuditCache } from './services/auditCache';
+import { createPostDeleter, PostDeleter } from './services/postDeleter';
+import { beginSignIn, completeSignIn, loadSession, signOut, onSessionCleared, XAuthError } from './services/xAuth';
+import { RateLimiter, RateLimiters, RATE_LIMIT_PROFILES, PURGE_OPERATIONS, operationOf, createRateLimiters, estimatePurgeEnd } from './services/rateLimiter';
+import { createPurgeJob, loadActivePurgeJob, loadPendingItems, recordItemOutcome, discardPurgeJob } from './services/purgeStore';
+import { ArchiveWorkerClient, ArchiveWorkerError } from './services/archiveWorker';
+import { loadPresets, savePreset, deletePreset, exportPresets, importPresets, PresetError } from './services/presets';
+import { downloadFile } from './services/download';
+import { loadRetentionRules, saveRetentionRules, describeRule } from './services/retention';
+import { loadKeepList, saveKeepList, selectByAudit, AuditSelector } from './services/selection';
+import { PII_KIND_LABELS } from './services/piiScanner';
+import { buildReport, ReportFormat, REPORT_FORMATS } from './services/reportExport';
+import { backupPost, markBackupDeleted, loadBackups, countBackups, clearBackups, backupsToTweetsJs } from './services/backupStore';
+import { startRun, appendJournal, endRun, loadRuns, loadRunReport, clearJournal } from './services/purgeJournal';
+import { loadFeedSort, saveFeedSort, sortPosts, countByType } from './services/feed';
+import { buildThreadIndex, orderChildrenFirst, threadFeed, threadLeafToRoot } from './services/threads';
+import { summarizeRecipients } from './services/recipients';
+import { AGE_UNITS, loadTimeZone, saveTimeZone, localTimeZone, timeZoneOptions, calendarDate, formatCalendarDate, describeDateRange } from './services/timeZone';
+import { parseQuery, builderQuery, combineQueries, formatQuery, highlightPatterns, matchRanges, appendQueryTerm, QueryParseError } from './services/queryLanguage';
+import SessionPanel from './components/SessionPanel';
+import ImportReport from './components/ImportReport';
+import PostCard from './components/PostCard';
+import PresetPanel from './components/PresetPanel';
+import RetentionPanel from './components/RetentionPanel';
+import AuditSettingsPanel from './components/AuditSettingsPanel';
+import SelectionBar from './components/SelectionBar';
+import ExportMenu from './components/ExportMenu';
+import BackupPanel from './components/BackupPanel';
+import RunReportPanel from './components/RunReportPanel';
+import PurgeHistoryPanel from './components/PurgeHistoryPanel';
+import PostFeed from './components/PostFeed';
+import RecipientPanel from './components/RecipientPanel';
+import AnalyticsDashboard from './components/AnalyticsDashboard';
 import { 
   Trash2, 
   Calendar, 
@@ -17,189 +50,1047 @@ import {
   Pause,
   Play,
   Eye,
-  Hash
+  Hash,
+  Server,
+  Lock,
+  Gauge,
+  RotateCcw,
+  Square,
+  FolderOpen,
+  AlertTriangle,
+  Terminal,
+  Globe
 } from 'lucide-react';
 
-const DELETION_INTERVAL_MS = 6000; // 60s / 10 = 6s per item to stay within 10/min limit
+const MAX_DELETE_ATTEMPTS = 3;
+// Deleted posts leave the feed in batches: every removal reruns the filter, scan,
+// analytics and retention over the whole archive.
+const PURGED_FLUSH_INTERVAL_MS = 30_000;
+
+const DELETER_MODES: { mode: DeleterMode; label: string }[] = [
+  { mode: 'dry-run', label: 'Dry Run' },
+  { mode: 'mock-server', label: 'Mock Server' },
+  { mode: 'x-api', label: 'X API' }
+];
+
+const POST_TYPES: PostType[] = ['tweet', 'reply', 'self-thread', 'quote', 'repost', 'like'];
+
+// Likes are opt-in, so importing like.js never widens an existing purge.
+const DEFAULT_POST_TYPES = POST_TYPES.filter(type => type !== 'like');
+
+const POST_TYPE_LABELS: Record<PostType, string> = {
+  tweet: 'Tweets',
+  reply: 'Replies',
+  'self-thread': 'Self-threads',
+  quote: 'Quotes',
+  repost: 'Reposts',
+  like: 'Likes'
+};
+
+const POST_ATTRIBUTES: { attribute: PostAttribute; label: string }[] = [
+  { attribute: 'media', label: 'Media' },
+  { attribute: 'link', label: 'Links' },
+  { attribute: 'hashtag', label: 'Hashtags' },
+  { attribute: 'mention', label: 'Mentions' }
+];
 
 const App: React.FC = () => {
   const [allPosts, setAllPosts] = useState<XPost[]>([]);
-  const [filteredPosts, setFilteredPosts] = useState<XPost[]>([]);
+  // What the filters (or the retention plan) matched, before whole threads are added back in.
+  const [filterMatches, setFilterMatches] = useState<XPost[]>([]);
   const [status, setStatus] = useState<ProcessStatus>(ProcessStatus.IDLE);
   const [auditResults, setAuditResults] = useState<Map<string, AuditResult>>(new Map());
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [previewMode, setPreviewMode] = useState<'all' | 'keywords'>('all');
+  const [auditProgress, setAuditProgress] = useState<AuditProgress | null>(null);
+  const [auditSettings, setAuditSettings] = useState<AuditSettings>(() => loadAuditSettings());
+  const [auditError, setAuditError] = useState<string | null>(null);
+  const [auditItemErrors, setAuditItemErrors] = useState<AuditItemError[]>([]);
+  const [auditSources, setAuditSources] = useState<Map<string, 'cached' | 'fresh'>>(new Map());
+  const auditAbortRef = useRef<AbortController | null>(null);
+  const [previewMode, setPreviewMode] = useState<PreviewMode>('all');
+  const [feedSort, setFeedSort] = useState<FeedSort>(() => loadFeedSort());
+  const [expandedThreads, setExpandedThreads] = useState<Set<string>>(new Set());
+  const [includedThreads, setIncludedThreads] = useState<Set<string>>(new Set());
   
-  const [filters, setFilters] = useState<ArchiveFilter>({
+  const [filters, setFilters] = useState<ArchiveFilter>(() => ({
     dateFrom: '2010-01-01',
-    dateTo: new Date().toISOString().split('T')[0],
+    dateTo: formatCalendarDate(calendarDate(Date.now(), loadTimeZone())),
+    relative: null,
+    timeZone: loadTimeZone(),
+    asOf: null,
     keywords: [],
-    postTypes: ['tweet', 'reply', 'repost']
-  });
+    postTypes: DEFAULT_POST_TYPES,
+    requires: [],
+    recipients: [],
+    query: ''
+  }));
 
   const [keywordInput, setKeywordInput] = useState('');
+  const [presets, setPresets] = useState<FilterPreset[]>(() => loadPresets());
+  const [presetError, setPresetError] = useState<string | null>(null);
+  const [presetNotice, setPresetNotice] = useState<string | null>(null);
+  const [retentionRules, setRetentionRules] = useState<RetentionRule[]>(() => loadRetentionRules());
+  const [retentionAsOf, setRetentionAsOf] = useState(() => Date.now());
+  const [retentionResult, setRetentionResult] = useState<RetentionResult | null>(null);
+  const [purgeByPolicy, setPurgeByPolicy] = useState(false);
+  // null selects every matching post, so new filter results start fully selected.
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null);
+  const [keepList, setKeepList] = useState<Set<string>>(() => loadKeepList());
+  const keepListRef = useRef(keepList);
+  const [piiScan, setPiiScan] = useState<PiiScanResult | null>(null);
+  const [analytics, setAnalytics] = useState<ArchiveAnalytics | null>(null);
+  const [importReport, setImportReport] = useState<ImportFileReport[] | null>(null);
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
+  const [importError, setImportError] = useState<ImportErrorInfo | null>(null);
+  const [workerError, setWorkerError] = useState<{ task: string; message: string } | null>(null);
+  const [keywordHits, setKeywordHits] = useState(0);
+  const archiveWorkerRef = useRef<ArchiveWorkerClient | null>(null);
+  const cancelImportRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    const worker = new ArchiveWorkerClient();
+    archiveWorkerRef.current = worker;
+    return () => {
+      worker.dispose();
+      archiveWorkerRef.current = null;
+    };
+  }, []);
   
   // Purge Queue State
   const [purgeProgress, setPurgeProgress] = useState<PurgeProgress | null>(null);
   const purgeTimerRef = useRef<number | null>(null);
+  const rateLimiterRef = useRef<RateLimiters | null>(null);
+  const [rateProfile, setRateProfile] = useState<RateLimitProfile>('standard');
+  const [now, setNow] = useState(() => Date.now());
   const purgeQueueRef = useRef<XPost[]>([]);
+  const purgeAttemptsRef = useRef<Map<string, number>>(new Map());
+  // The purge step currently running, settled once the outcome of its request is recorded.
+  const purgeInFlightRef = useRef<Promise<unknown> | null>(null);
+  const purgeJobRef = useRef<PurgeJob | null>(null);
+  const purgeTweetsRef = useRef<Map<string, ArchiveTweet>>(new Map());
+  // Posts deleted on X that are still in the loaded archive until the next flush.
+  const purgedIdsRef = useRef<string[]>([]);
+  const [backupCount, setBackupCount] = useState(0);
+  const purgeRunRef = useRef<string | null>(null);
+  const [runs, setRuns] = useState<PurgeRun[]>([]);
+  const [runReport, setRunReport] = useState<RunReport | null>(null);
+  const deleterRef = useRef<PostDeleter | null>(null);
+  // Set while a purge is being queued, before the status turns PURGING and disables the buttons.
+  const launchingRef = useRef(false);
+  const [deleterMode, setDeleterMode] = useState<DeleterMode>('dry-run');
+  const [resumableJob, setResumableJob] = useState<{ job: PurgeJob; pending: PurgeItem[] } | null>(null);
 
-  // Simulation logic for file parsing
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  useEffect(() => {
+    loadActivePurgeJob()
+      .then(async job => {
+        if (!job) return;
+        const pending = await loadPendingItems(job.id);
+        if (pending.length > 0) setResumableJob({ job, pending });
+        else await discardPurgeJob(job.id);
+      })
+      .catch(err => console.error("Failed to load saved purge", err));
+    loadRuns().then(setRuns).catch(err => console.error("Failed to load purge history", err));
+  }, []);
+
+  useEffect(() => {
+    if (status === ProcessStatus.PURGING) return;
+    countBackups().then(setBackupCount).catch(err => console.error("Failed to count backups", err));
+  }, [status]);
+
+  // Account Session State
+  const [session, setSession] = useState<XSession | null>(() => loadSession());
+  const [archiveAccount, setArchiveAccount] = useState<ArchiveAccount | null>(null);
+  const [following, setFollowing] = useState<Set<string> | null>(null);
+  const [sessionBusy, setSessionBusy] = useState(false);
+
+  useEffect(() => {
+    setSessionBusy(true);
+    completeSignIn()
+      .then(result => result && setSession(result))
+      .catch(err => {
+        console.error("Sign-in failed", err);
+        alert(`Sign-in with X failed: ${err.message}`);
+      })
+      .finally(() => setSessionBusy(false));
+  }, []);
+
+  useEffect(() => onSessionCleared(() => setSession(null)), []);
+
+  const handleSignIn = () => {
+    setSessionBusy(true);
+    beginSignIn().catch(err => {
+      alert(`Could not start sign-in: ${err.message}`);
+      setSessionBusy(false);
+    });
+  };
+
+  // The stored session is dropped before the tokens are revoked, so the app signs out even if revoking fails.
+  const handleSignOut = async () => {
+    setSessionBusy(true);
+    try {
+      await signOut();
+    } catch (err) {
+      console.error("Sign-out failed", err);
+    } finally {
+      setSession(null);
+      setSessionBusy(false);
+    }
+  };
+
+  // Accepts the archive .zip, its extracted folder, or individual data/*.js files.
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    const worker = archiveWorkerRef.current;
+    if (files.length === 0 || !worker) return;
 
     setStatus(ProcessStatus.LOADING);
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      try {
-        const content = event.target?.result as string;
-        let jsonStr = content;
-        if (content.includes('window.YTD.tweet.part0 = ')) {
-          jsonStr = content.replace('window.YTD.tweet.part0 = ', '');
-        }
-        
-        const data = JSON.parse(jsonStr);
-        const formatted: XPost[] = data.map((item: any) => {
-          const t = item.tweet;
-          let type: PostType = 'tweet';
-          
-          if (t.full_text.startsWith('RT @')) {
-            type = 'repost';
-          } else if (t.in_reply_to_status_id_str) {
-            type = 'reply';
-          }
+    setImportError(null);
+    setWorkerError(null);
+    setImportProgress(null);
+    const { result, cancel } = worker.importFiles(files, setImportProgress);
+    cancelImportRef.current = cancel;
+    try {
+      const imported = await result;
 
-          return {
-            id: t.id_str,
-            full_text: t.full_text,
-            created_at: t.created_at,
-            type,
-            reply_to_user_id: t.in_reply_to_user_id_str,
-            reply_to_status_id: t.in_reply_to_status_id_str,
-            favorite_count: parseInt(t.favorite_count) || 0,
-            retweet_count: parseInt(t.retweet_count) || 0
-          };
-        });
-
-        setAllPosts(formatted);
-        setStatus(ProcessStatus.IDLE);
-      } catch (err) {
+      // A new tweet set invalidates the previous ownership check unless the account came with it.
+      if (imported.posts) {
+        setAllPosts(imported.posts);
+        setArchiveAccount(imported.account);
+      } else if (imported.account) {
+        setArchiveAccount(imported.account);
+      }
+      if (imported.following) setFollowing(new Set<string>(imported.following));
+      setImportReport(imported.report);
+    } catch (err) {
+      const info = err instanceof ArchiveWorkerError
+        ? err.info
+        : { code: 'worker' as const, message: err instanceof Error ? err.message : String(err) };
+      if (info.code !== 'cancelled') {
         console.error("Failed to parse archive", err);
-        alert("Invalid archive file. Please ensure you are uploading the 'tweets.js' file from your X Archive.");
-        setStatus(ProcessStatus.IDLE);
+        setImportError(info);
       }
-    };
-    reader.readAsText(file);
+    } finally {
+      cancelImportRef.current = null;
+      setImportProgress(null);
+      setStatus(ProcessStatus.IDLE);
+    }
   };
 
-  const applyFilters = useCallback(() => {
-    let result = allPosts.filter(post => {
-      const date = new Date(post.created_at);
-      const from = new Date(filters.dateFrom);
-      const to = new Date(filters.dateTo);
-      to.setHours(23, 59, 59);
+  const cancelImport = () => cancelImportRef.current?.();
 
-      const withinDate = date >= from && date <= to;
-      
-      const matchesKeywords = filters.keywords.length === 0 || 
-        filters.keywords.some(k => post.full_text.toLowerCase().includes(k.toLowerCase()));
-      
-      const matchesType = filters.postTypes.includes(post.type);
-      
-      // If preview mode is 'keywords', we force the keywords match
-      const previewFilter = previewMode === 'keywords' ? (filters.keywords.length > 0 && matchesKeywords) : true;
+  const postIndex = useMemo(() => new Map(allPosts.map(p => [p.id, p])), [allPosts]);
+  const threadIndex = useMemo(() => buildThreadIndex(allPosts), [allPosts]);
+  const recipients = useMemo(() => summarizeRecipients(allPosts, following), [allPosts, following]);
+  // A zone from a preset or saved purge may be missing from this browser's list.
+  const timeZones = useMemo(() => {
+    const zones = timeZoneOptions();
+    return zones.includes(filters.timeZone) ? zones : [filters.timeZone, ...zones];
+  }, [filters.timeZone]);
+
+  // A failed worker request drops its stale result, so nothing outdated is shown or purged.
+  const workerFailed = (task: string, err: unknown) => {
+    console.error(`Archive worker failed to ${task}`, err);
+    setWorkerError({ task, message: err instanceof Error ? err.message : String(err) });
+  };
+
+  // Filtering runs in the archive worker; only the latest request's answer is applied.
+  useEffect(() => {
+    const worker = archiveWorkerRef.current;
+    if (!worker || purgeByPolicy) return;
+    let stale = false;
+    worker.filter(filters, previewMode).then(({ ids, keywordHits }) => {
+      if (stale) return;
+      setFilterMatches(ids.map(id => postIndex.get(id)).filter((p): p is XPost => !!p));
+      setKeywordHits(keywordHits);
+    }).catch(err => {
+      if (stale) return;
+      setFilterMatches([]);
+      setKeywordHits(0);
+      workerFailed('filter posts', err);
+    });
+    return () => {
+      stale = true;
+    };
+  }, [postIndex, filters, previewMode, purgeByPolicy]);
+
+  // Policies are evaluated whenever rules exist so Data Insights can show per-rule counts;
+  // they only replace the filter selection while purging by policy.
+  useEffect(() => {
+    const worker = archiveWorkerRef.current;
+    if (!worker || retentionRules.length === 0) {
+      setRetentionResult(null);
+      return;
+    }
+    let stale = false;
+    worker.evaluateRetention(retentionRules, retentionAsOf, filters.timeZone).then(result => {
+      if (!stale) setRetentionResult(result);
+    }).catch(err => {
+      if (stale) return;
+      setRetentionResult(null);
+      workerFailed('evaluate retention rules', err);
+    });
+    return () => {
+      stale = true;
+    };
+  }, [postIndex, retentionRules, retentionAsOf, filters.timeZone]);
+
+  useEffect(() => {
+    const worker = archiveWorkerRef.current;
+    if (!worker || allPosts.length === 0) {
+      setPiiScan(null);
+      return;
+    }
+    let stale = false;
+    worker.scanPii().then(result => {
+      if (!stale) setPiiScan(result);
+    }).catch(err => {
+      if (stale) return;
+      setPiiScan(null);
+      workerFailed('scan for personal information', err);
+    });
+    return () => {
+      stale = true;
+    };
+  }, [postIndex]);
+
+  useEffect(() => {
+    const worker = archiveWorkerRef.current;
+    if (!worker || allPosts.length === 0) {
+      setAnalytics(null);
+      return;
+    }
+    let stale = false;
+    worker.analyze(filters.timeZone).then(result => {
+      if (!stale) setAnalytics(result);
+    }).catch(err => {
+      if (stale) return;
+      setAnalytics(null);
+      workerFailed('compute analytics', err);
+    });
+    return () => {
+      stale = true;
+    };
+  }, [postIndex, filters.timeZone]);
 
-      return withinDate && matchesKeywords && matchesType && previewFilter;
+  useEffect(() => {
+    if (!purgeByPolicy) return;
+    const plan = retentionResult && !retentionResult.error ? retentionResult.plan : [];
+    setFilterMatches(plan.map(entry => postIndex.get(entry.postId)).filter((p): p is XPost => !!p));
+  }, [purgeByPolicy, retentionResult, postIndex]);
+
+  // Threads the user chose to include whole: their unmatched posts join the matches.
+  const filteredPosts = useMemo(() => {
+    if (includedThreads.size === 0) return filterMatches;
+    const matched = new Set(filterMatches.map(p => p.id));
+    const extra: XPost[] = [];
+    includedThreads.forEach(rootId => (threadIndex.members.get(rootId) ?? []).forEach(id => {
+      const post = postIndex.get(id);
+      if (post && !matched.has(id)) extra.push(post);
+    }));
+    return [...filterMatches, ...extra];
+  }, [filterMatches, includedThreads, threadIndex, postIndex]);
+
+  // Threads where the filters matched some posts but not all of them.
+  const partialThreads = useMemo(() => {
+    const matched = new Set(filteredPosts.map(p => p.id));
+    const missingByRoot = new Map<string, number>();
+    let missing = 0;
+    filteredPosts.forEach(post => {
+      const rootId = threadIndex.rootOf.get(post.id);
+      if (!rootId || missingByRoot.has(rootId)) return;
+      const outside = threadIndex.members.get(rootId)!.filter(id => !matched.has(id)).length;
+      missingByRoot.set(rootId, outside);
+      missing += outside;
     });
+    return { missingByRoot, missing };
+  }, [filteredPosts, threadIndex]);
 
-    setFilteredPosts(result);
-  }, [allPosts, filters, previewMode]);
+  const policyRuleByPost = useMemo(() => {
+    if (!purgeByPolicy || !retentionResult) return new Map<string, string>();
+    const labels = new Map(retentionRules.map(r => [r.id, describeRule(r)]));
+    return new Map(retentionResult.plan.map(entry => [entry.postId, labels.get(entry.ruleId) || '']));
+  }, [purgeByPolicy, retentionResult, retentionRules]);
 
   useEffect(() => {
-    applyFilters();
-  }, [applyFilters]);
+    setSelectedIds(null);
+    setIncludedThreads(new Set());
+  }, [filters, previewMode, purgeByPolicy]);
+
+  const isSelected = (id: string) => selectedIds === null || selectedIds.has(id);
+
+  // The keep list overrides everything else: a kept post is never a purge target.
+  const purgeTargets = useMemo(
+    () => filteredPosts.filter(p => (selectedIds === null || selectedIds.has(p.id)) && !keepList.has(p.id)),
+    [filteredPosts, selectedIds, keepList]
+  );
+
+  // Audit results only matter to the risk sort; other orders ignore them so an audit never re-sorts them.
+  const sortAudits = feedSort === 'highest-risk' ? auditResults : null;
+  const sortedPosts = useMemo(
+    () => sortPosts(filteredPosts, feedSort, sortAudits ?? new Map()),
+    [filteredPosts, feedSort, sortAudits]
+  );
+
+  const targetTypeCounts = useMemo(() => countByType(purgeTargets), [purgeTargets]);
+  const hasAudits = useMemo(() => filteredPosts.some(p => auditResults.has(p.id)), [filteredPosts, auditResults]);
+  const privacyFindingCount = useMemo(
+    () => (piiScan ? filteredPosts.filter(p => piiScan.findings.has(p.id)).length : 0),
+    [filteredPosts, piiScan]
+  );
+
+  const changeFeedSort = (sort: FeedSort) => {
+    setFeedSort(sort);
+    saveFeedSort(sort);
+  };
+
+  const feedEntries = useMemo(
+    () => threadFeed(sortedPosts, threadIndex, postIndex, expandedThreads),
+    [sortedPosts, threadIndex, postIndex, expandedThreads]
+  );
+  const feedEntryById = useMemo(() => new Map(feedEntries.map(entry => [entry.post.id, entry])), [feedEntries]);
+  const feedPosts = useMemo(() => feedEntries.map(entry => entry.post), [feedEntries]);
+
+  const toggleThread = (rootId: string) => {
+    const next = new Set<string>(expandedThreads);
+    if (next.has(rootId)) next.delete(rootId);
+    else next.add(rootId);
+    setExpandedThreads(next);
+  };
+
+  const includeThreads = (roots: Iterable<string>) => {
+    const added = [...roots].filter(rootId => !includedThreads.has(rootId));
+    setIncludedThreads(new Set<string>([...includedThreads, ...added]));
+    // An explicit selection would otherwise leave the newly included posts unticked.
+    if (selectedIds !== null) {
+      setSelectedIds(new Set<string>([...selectedIds, ...added.flatMap(rootId => threadIndex.members.get(rootId) ?? [])]));
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    const next = new Set<string>(selectedIds ?? filteredPosts.map(p => p.id));
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelectedIds(next);
+  };
+
+  const invertSelection = () => {
+    setSelectedIds(new Set(filteredPosts.filter(p => !isSelected(p.id)).map(p => p.id)));
+  };
+
+  const selectByAuditResult = (selector: AuditSelector) => {
+    setSelectedIds(selectByAudit(filteredPosts, auditResults, selector));
+  };
+
+  const updateKeepList = (ids: Set<string>) => {
+    keepListRef.current = ids;
+    setKeepList(ids);
+    saveKeepList(ids);
+  };
+
+  const toggleKept = (id: string) => {
+    const next = new Set<string>(keepList);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    updateKeepList(next);
+  };
+
+  const clearKeepList = () => {
+    if (!confirm(`Remove all ${keepList.size} posts from the keep list? They can be purged again afterwards.`)) return;
+    updateKeepList(new Set());
+  };
+
+  const updateRetentionRules = (rules: RetentionRule[]) => {
+    setRetentionRules(rules);
+    saveRetentionRules(rules);
+    setRetentionAsOf(Date.now());
+    if (rules.length === 0) setPurgeByPolicy(false);
+  };
+
+  const togglePurgeByPolicy = () => {
+    setRetentionAsOf(Date.now());
+    setPurgeByPolicy(prev => !prev);
+  };
+
+  const updateAuditSettings = (settings: AuditSettings) => {
+    setAuditSettings(settings);
+    saveAuditSettings(settings);
+    setAuditError(null);
+  };
 
   const handleAudit = async () => {
     if (filteredPosts.length === 0) return;
+    let provider;
+    try {
+      provider = createAuditProvider(auditSettings);
+    } catch (err) {
+      if (!(err instanceof AuditConfigError)) throw err;
+      setAuditError(err.message);
+      return;
+    }
+    setAuditError(null);
+    const controller = new AbortController();
+    auditAbortRef.current = controller;
     setStatus(ProcessStatus.AUDITING);
-    const results = await auditPosts(filteredPosts);
-    setAuditResults(results);
-    setStatus(ProcessStatus.IDLE);
+    setAuditProgress({ total: filteredPosts.length, audited: 0, cached: 0, failed: 0, invalid: 0, cancelled: false, lastError: null });
+    setAuditItemErrors([]);
+    try {
+      const final = await auditPosts(provider, filteredPosts, {
+        batchSize: auditSettings.batchSize,
+        concurrency: auditSettings.concurrency,
+        signal: controller.signal,
+        onCached: (results, progress) => {
+          setAuditResults(prev => new Map([...prev, ...results]));
+          setAuditSources(prev => new Map([...prev, ...[...results.keys()].map(id => [id, 'cached'] as const)]));
+          setAuditProgress(progress);
+        },
+        onBatch: (results, progress, errors) => {
+          setAuditResults(prev => new Map([...prev, ...results]));
+          setAuditSources(prev => new Map([...prev, ...[...results.keys()].map(id => [id, 'fresh'] as const)]));
+          setAuditProgress(progress);
+          if (errors.length > 0) setAuditItemErrors(prev => [...prev, ...errors]);
+        }
+      });
+      setAuditProgress(final);
+    } finally {
+      auditAbortRef.current = null;
+      setStatus(ProcessStatus.IDLE);
+    }
+  };
+
+  const cancelAudit = () => auditAbortRef.current?.abort();
+
+  const handleClearAuditCache = async () => {
+    if (!confirm("Forget every cached audit result? The next audit will re-send all posts to the provider.")) return;
+    try {
+      await clearAuditCache();
+    } catch (err) {
+      console.error("Failed to clear audit cache", err);
+      setAuditError("The audit cache could not be cleared.");
+    }
+  };
+
+  const handleDownloadBackups = async () => {
+    try {
+      const records = await loadBackups();
+      downloadFile('tweets.js', backupsToTweetsJs(records), 'text/javascript');
+    } catch (err) {
+      console.error("Failed to read backups", err);
+      alert("The local backups could not be read.");
+    }
+  };
+
+  const handleClearBackups = async () => {
+    if (!confirm(`Delete all ${backupCount} local backups? Download them first if you may need to recover any of these posts.`)) return;
+    try {
+      await clearBackups();
+      setBackupCount(0);
+    } catch (err) {
+      console.error("Failed to clear backups", err);
+    }
+  };
+
+  // Deleting for real requires the signed-in account to own the loaded archive.
+  const purgeBlockedReason = deleterMode !== 'x-api' ? null
+    : !session ? 'Sign in with X to delete posts from your account.'
+    : !archiveAccount ? 'Upload account.js from the same archive to verify ownership.'
+    : archiveAccount.accountId !== session.user.id ? `This archive belongs to @${archiveAccount.username}, not the signed-in @${session.user.username}.`
+    : null;
+
+  const resumeBlockedReason = resumableJob?.job.deleterMode === 'x-api' && (!session || session.user.id !== resumableJob.job.accountId)
+    ? 'Sign in with the X account this purge was started from to resume it.'
+    : null;
+
+  // Queues the posts, opens a journal run and starts the delete loop; shared by new purges and retries.
+  // Replies are queued ahead of the posts they answer.
+  const launchPurge = async (
+    posts: XPost[],
+    settings: Pick<PurgeRun, 'filters' | 'deleterMode' | 'rateProfile' | 'retention' | 'accountId' | 'retryOf'>
+  ) => {
+    if (launchingRef.current) return;
+    launchingRef.current = true;
+    try {
+      // Relative ranges are pinned to the launch, so a resumed purge shows the matches it started with.
+      settings = { ...settings, filters: { ...settings.filters, asOf: settings.filters.asOf ?? Date.now() } };
+      let deleter: PostDeleter;
+      try {
+        deleter = createPostDeleter(settings.deleterMode, session);
+      } catch (err) {
+        if (!(err instanceof XAuthError)) throw err;
+        alert(err.message);
+        return;
+      }
+      const targets = orderChildrenFirst(posts, threadIndex);
+      let tweets: Map<string, ArchiveTweet>;
+      try {
+        tweets = await (archiveWorkerRef.current?.getTweets(targets.map(p => p.id)) ?? new Map<string, ArchiveTweet>());
+      } catch (err) {
+        workerFailed('look up the posts to back up', err);
+        return;
+      }
+      purgeTweetsRef.current = tweets;
+      let run: PurgeRun | null = null;
+      try {
+        run = await startRun({ ...settings, total: targets.length });
+      } catch (err) {
+        console.error("Failed to start purge journal", err);
+      }
+      purgeRunRef.current = run?.id ?? null;
+      const { retryOf, ...jobSettings } = settings;
+      try {
+        purgeJobRef.current = await createPurgeJob({ ...jobSettings, runId: run?.id }, targets, tweets);
+      } catch (err) {
+        console.error("Failed to persist purge queue", err);
+        if (!confirm("The purge queue could not be saved locally, so it won't survive a page reload. Continue anyway?")) {
+          if (run) endRun(run.id, 'stopped').catch(err => console.error("Failed to close purge journal", err));
+          purgeRunRef.current = null;
+          return;
+        }
+        purgeJobRef.current = null;
+      }
+      setResumableJob(null);
+      setRunReport(null);
+      purgeQueueRef.current = [...targets];
+      purgeAttemptsRef.current = new Map();
+      deleterRef.current = deleter;
+      rateLimiterRef.current = createRateLimiters(settings.rateProfile);
+      setStatus(ProcessStatus.PURGING);
+      setPurgeProgress({
+        total: targets.length,
+        completed: 0,
+        failed: 0,
+        skipped: 0,
+        remaining: targets.length,
+        startTime: Date.now(),
+        currentType: null,
+        lastOutcome: null,
+        nextRequestAt: null,
+        estimatedEndAt: null
+      });
+    } finally {
+      launchingRef.current = false;
+    }
+  };
+
+  // Closes the journal run and shows its report.
+  const finishRun = async (reason: 'completed' | 'stopped') => {
+    const runId = purgeRunRef.current;
+    purgeRunRef.current = null;
+    if (runId) {
+      try {
+        await endRun(runId, reason);
+        setRunReport(await loadRunReport(runId));
+        setRuns(await loadRuns());
+        return;
+      } catch (err) {
+        console.error("Failed to load purge report", err);
+      }
+    }
+    // Without a report to show, the completion notice dismisses itself unless a new purge has begun.
+    if (reason === 'completed') {
+      setTimeout(() => setStatus((current: ProcessStatus) => current === ProcessStatus.COMPLETED ? ProcessStatus.IDLE : current), 5000);
+    }
+  };
+
+  const openRunReport = async (runId: string) => {
+    try {
+      setRunReport(await loadRunReport(runId));
+    } catch (err) {
+      console.error("Failed to load purge report", err);
+    }
+  };
+
+  const dismissRunReport = () => {
+    setRunReport(null);
+    if (status === ProcessStatus.COMPLETED) setStatus(ProcessStatus.IDLE);
+  };
+
+  const handleClearJournal = async () => {
+    if (!confirm(`Delete the journal of all ${runs.length} past purge runs?`)) return;
+    try {
+      await clearJournal();
+      setRuns([]);
+      setRunReport(null);
+    } catch (err) {
+      console.error("Failed to clear purge journal", err);
+    }
   };
 
   // Rate-limited Purge Logic
-  const startPurge = () => {
-    if (filteredPosts.length === 0) return;
-    const confirmed = confirm(`Safety Protocol: You are about to delete ${filteredPosts.length} posts. 
-    
+  const startPurge = async () => {
+    if (purgeTargets.length === 0 || purgeBlockedReason || launchingRef.current) return;
+    const limiters = createRateLimiters(rateProfile);
+    const profile = RATE_LIMIT_PROFILES[rateProfile];
+    const target = purgeByPolicy && retentionResult
+      ? `Target: ${retentionRules.length} retention rules, evaluated as of ${new Date(retentionResult.asOf).toLocaleString()}\n`
+      : '';
+    const protectedCount = filteredPosts.filter(p => keepList.has(p.id)).length;
+    const deselected = filteredPosts.length - purgeTargets.length - protectedCount;
+    const selection = protectedCount > 0 || deselected > 0
+      ? `Selection: ${purgeTargets.length} of ${filteredPosts.length} matching posts (${protectedCount} on the keep list, ${deselected} deselected)\n`
+      : '';
+    const likes = purgeTargets.filter(p => operationOf(p) === 'unlike').length;
+    const unlikes = likes > 0 ? ` (${likes} of them are likes and will be unliked)` : '';
+    const confirmed = confirm(`Safety Protocol: You are about to delete ${purgeTargets.length} posts${unlikes}. 
+
+${target}${selection}Backend: ${DELETER_MODES.find(d => d.mode === deleterMode)?.label}
 Rate Limiting will be applied:
-- 1 post every 6 seconds (10/min)
-- Estimated time: ${Math.round((filteredPosts.length * DELETION_INTERVAL_MS) / 1000 / 60)} minutes.
+- Profile: ${profile.label} (up to ${profile.perMinute} deletions${likes > 0 ? ` and ${profile.unlikePerMinute} unlikes` : ''}/min, slower if X reports a smaller budget)
+- Estimated time: ${Math.round((estimatePurgeEnd(limiters, purgeTargets) - Date.now()) / 1000 / 60)} minutes.
     
 Proceed?`);
 
     if (confirmed) {
-      purgeQueueRef.current = [...filteredPosts];
+      await launchPurge(purgeTargets, {
+        filters,
+        deleterMode,
+        rateProfile,
+        retention: purgeByPolicy && retentionResult ? { rules: retentionRules, asOf: retentionResult.asOf } : undefined,
+        accountId: archiveAccount?.accountId ?? null,
+        retryOf: null
+      });
+    }
+  };
+
+  // Deletes every loaded post of the thread, whatever the filters matched, leaf to root.
+  const purgeThread = async (rootId: string) => {
+    if (purgeBlockedReason || launchingRef.current) return;
+    const members = threadLeafToRoot(threadIndex, rootId)
+      .map(id => postIndex.get(id))
+      .filter((p): p is XPost => !!p);
+    const targets = members.filter(p => !keepList.has(p.id));
+    if (targets.length === 0) return;
+    const protectedCount = members.length - targets.length;
+    if (!confirm(`Purge this entire thread? ${targets.length} posts will be deleted, replies first and the opening post last.
+${protectedCount > 0 ? `${protectedCount} posts on the keep list stay.\n` : ''}
+Backend: ${DELETER_MODES.find(d => d.mode === deleterMode)?.label}
+Profile: ${RATE_LIMIT_PROFILES[rateProfile].label}
+
+Proceed?`)) return;
+    await launchPurge(targets, {
+      filters,
+      deleterMode,
+      rateProfile,
+      retention: undefined,
+      accountId: archiveAccount?.accountId ?? null,
+      retryOf: null
+    });
+  };
+
+  const retryFailedItems = async () => {
+    if (!runReport || launchingRef.current) return;
+    const { run } = runReport;
+    const posts = runReport.items
+      .filter(item => item.result === 'failed' && item.post && !keepList.has(item.postId))
+      .map(item => item.post!);
+    if (posts.length === 0) return;
+    const profile = RATE_LIMIT_PROFILES[run.rateProfile];
+    if (!confirm(`Retry deleting ${posts.length} posts that failed in this run?
+
+Backend: ${DELETER_MODES.find(d => d.mode === run.deleterMode)?.label}
+Profile: ${profile.label} (up to ${profile.perMinute}/min)
+
+Proceed?`)) return;
+    setDeleterMode(run.deleterMode);
+    setRateProfile(run.rateProfile);
+    await launchPurge(posts, {
+      filters: run.filters,
+      deleterMode: run.deleterMode,
+      rateProfile: run.rateProfile,
+      retention: run.retention,
+      accountId: run.accountId,
+      retryOf: run.id
+    });
+  };
+
+  const retryBlockedReason = runReport?.run.deleterMode === 'x-api' && (!session || session.user.id !== runReport.run.accountId)
+    ? 'Sign in with the X account this purge ran against to retry it.'
+    : null;
+
+  const resumeSavedPurge = async () => {
+    if (!resumableJob || resumeBlockedReason || launchingRef.current) return;
+    launchingRef.current = true;
+    try {
+      const { job, pending } = resumableJob;
+      let deleter: PostDeleter;
+      try {
+        deleter = createPostDeleter(job.deleterMode, session);
+      } catch (err) {
+        if (!(err instanceof XAuthError)) throw err;
+        alert(err.message);
+        return;
+      }
+
+      let runId = job.runId ?? null;
+      if (!runId) {
+        try {
+          const { filters, deleterMode, rateProfile, retention, accountId, total } = job;
+          runId = (await startRun({ filters, deleterMode, rateProfile, retention, accountId, total, retryOf: null })).id;
+        } catch (err) {
+          console.error("Failed to start purge journal", err);
+        }
+      }
+      purgeRunRef.current = runId;
+
+      purgeJobRef.current = job;
+      purgeQueueRef.current = pending.map(item => item.post);
+      purgeTweetsRef.current = new Map(pending.filter(item => item.tweet).map(item => [item.postId, item.tweet!]));
+      purgeAttemptsRef.current = new Map(pending.map(item => [item.postId, item.attempts]));
+      deleterRef.current = deleter;
+      rateLimiterRef.current = createRateLimiters(job.rateProfile);
+      // Jobs saved before relative ranges existed were filtered by fixed dates in the browser's zone.
+      setFilters({ requires: [], recipients: [], query: '', relative: null, timeZone: localTimeZone(), asOf: null, ...job.filters });
+      setDeleterMode(job.deleterMode);
+      setRateProfile(job.rateProfile);
+      setResumableJob(null);
       setStatus(ProcessStatus.PURGING);
       setPurgeProgress({
-        total: filteredPosts.length,
-        completed: 0,
-        remaining: filteredPosts.length,
+        total: job.total,
+        completed: job.completed,
+        failed: job.failed,
+        skipped: 0,
+        remaining: pending.length,
         startTime: Date.now(),
         currentType: null,
-        secondsToNext: 0
+        lastOutcome: null,
+        nextRequestAt: null,
+        estimatedEndAt: null
       });
+    } finally {
+      launchingRef.current = false;
     }
   };
 
-  const stopPurge = () => {
+  const discardSavedPurge = () => {
+    if (!resumableJob) return;
+    if (!confirm(`Discard the saved purge? ${resumableJob.pending.length} posts will stay on your account.`)) return;
+    discardPurgeJob(resumableJob.job.id).catch(err => console.error("Failed to discard saved purge", err));
+    setResumableJob(null);
+  };
+
+  const pausePurge = () => setStatus(ProcessStatus.PAUSED);
+
+  const continuePurge = () => setStatus(ProcessStatus.PURGING);
+
+  const stopPurge = async () => {
     if (purgeTimerRef.current) window.clearTimeout(purgeTimerRef.current);
     setStatus(ProcessStatus.IDLE);
+    // A request already sent may have deleted its post; record that before closing the queue and the journal.
+    await purgeInFlightRef.current;
+    if (purgeJobRef.current) {
+      discardPurgeJob(purgeJobRef.current.id).catch(err => console.error("Failed to discard purge queue", err));
+      purgeJobRef.current = null;
+    }
+    finishRun('stopped');
     setPurgeProgress(null);
   };
 
+  const journal = (postId: string, outcome: JournalOutcome, message?: string, post?: XPost) => {
+    const runId = purgeRunRef.current;
+    if (!runId) return;
+    appendJournal(runId, postId, outcome, message, post).catch(err => console.error("Failed to write purge journal", err));
+  };
+
+  const flushPurgedPosts = () => {
+    const ids = purgedIdsRef.current;
+    if (ids.length === 0) return;
+    purgedIdsRef.current = [];
+    archiveWorkerRef.current?.removePosts(ids);
+    const removed = new Set(ids);
+    setAllPosts(prev => prev.filter(p => !removed.has(p.id)));
+  };
+
+  const persistOutcome = (postId: string, state: PurgeItem['state'], error?: string) => {
+    const job = purgeJobRef.current;
+    if (!job) return;
+    recordItemOutcome(job.id, postId, state, error).catch(err => console.error("Failed to persist purge progress", err));
+  };
+
   useEffect(() => {
-    if (status === ProcessStatus.PURGING && purgeQueueRef.current.length > 0) {
-      const processNext = () => {
-        const post = purgeQueueRef.current.shift();
-        if (!post) {
-          setStatus(ProcessStatus.COMPLETED);
-          setTimeout(() => setStatus(ProcessStatus.IDLE), 5000);
-          setPurgeProgress(null);
-          return;
+    let cancelled = false;
+    let flushTimer: number | undefined;
+
+    if (status === ProcessStatus.PURGING && purgeQueueRef.current.length > 0 && deleterRef.current && rateLimiterRef.current) {
+      const deleter = deleterRef.current;
+      const limiters = rateLimiterRef.current;
+
+      // Deletes and unlikes spend separate budgets, so the next request is the head of
+      // whichever operation's queue its limiter lets through first.
+      const nextInLine = (): { post: XPost; limiter: RateLimiter; at: number } | null => {
+        let next: { post: XPost; limiter: RateLimiter; at: number } | null = null;
+        for (const operation of PURGE_OPERATIONS) {
+          const post = purgeQueueRef.current.find(p => operationOf(p) === operation);
+          if (!post) continue;
+          const at = limiters[operation].nextSlotAt();
+          if (!next || at < next.at) next = { post, limiter: limiters[operation], at };
         }
+        return next;
+      };
+
+      const dequeue = (post: XPost) => {
+        purgeQueueRef.current = purgeQueueRef.current.filter(p => p.id !== post.id);
+      };
 
-        // Simulated API Call
-        console.log(`Deleting ${post.type} ID: ${post.id}`);
-        
-        setAllPosts(prev => prev.filter(p => p.id !== post.id));
+      const scheduleNext = () => {
+        const nextRequestAt = nextInLine()?.at ?? Date.now();
         setPurgeProgress(prev => prev ? ({
           ...prev,
-          completed: prev.completed + 1,
-          remaining: purgeQueueRef.current.length,
-          currentType: post.type,
-          secondsToNext: DELETION_INTERVAL_MS / 1000
+          nextRequestAt,
+          estimatedEndAt: estimatePurgeEnd(limiters, purgeQueueRef.current)
         }) : null);
+        purgeTimerRef.current = window.setTimeout(runTick, Math.max(0, nextRequestAt - Date.now()));
+      };
+
+      // Records what a sent request did, even after a pause or stop: a post X already deleted
+      // must leave the queue, the journal and the feed, or a resumed run would delete it again.
+      const recordOutcome = (post: XPost, outcome: DeleteOutcome, backedUp: boolean) => {
+        switch (outcome.status) {
+          case 'deleted':
+          case 'already-gone':
+            dequeue(post);
+            persistOutcome(post.id, 'done');
+            journal(post.id, outcome.status);
+            if (backedUp) markBackupDeleted(post.id).catch(err => console.error("Failed to mark backup", err));
+            purgedIdsRef.current.push(post.id);
+            // Once the loop has stopped, nothing else would flush it.
+            if (cancelled) flushPurgedPosts();
+            setPurgeProgress(prev => prev ? ({
+              ...prev,
+              completed: prev.completed + 1,
+              remaining: purgeQueueRef.current.length
+            }) : null);
+            break;
+
+          case 'rate-limited':
+            // Keep the post at the head of its queue; its limiter holds off until the window resets.
+            journal(post.id, 'rate-limited');
+            break;
+
+          case 'auth-failed':
+            journal(post.id, 'auth-failed', outcome.message);
+            break;
+
+          case 'error': {
+            const attempts = (purgeAttemptsRef.current.get(post.id) || 0) + 1;
+            purgeAttemptsRef.current.set(post.id, attempts);
+            if (attempts >= MAX_DELETE_ATTEMPTS) {
+              console.error(`Giving up on ${post.id} after ${attempts} attempts: ${outcome.message}`);
+              dequeue(post);
+              persistOutcome(post.id, 'failed', outcome.message);
+              journal(post.id, 'failed', outcome.message, post);
+              setPurgeProgress(prev => prev ? ({
+                ...prev,
+                failed: prev.failed + 1,
+                remaining: purgeQueueRef.current.length
+              }) : null);
+            } else {
+              persistOutcome(post.id, 'pending', outcome.message);
+              journal(post.id, 'retrying', outcome.message);
+            }
+            break;
+          }
+        }
+      };
+
+      // One request per tick: skipped posts are dropped in a loop until a request is sent.
+      const processNext = async (previous: Promise<unknown> | null) => {
+        // A request sent before a pause must settle before the same post can be picked again.
+        if (previous) await previous;
+        while (!cancelled) {
+          const next = nextInLine();
+          if (!next) {
+            if (purgeJobRef.current) {
+              discardPurgeJob(purgeJobRef.current.id).catch(err => console.error("Failed to clear finished purge", err));
+              purgeJobRef.current = null;
+            }
+            setStatus(ProcessStatus.COMPLETED);
+            setPurgeProgress(null);
+            finishRun('completed');
+            return;
+          }
+          const { post, limiter } = next;
+
+          // Posts protected after the purge was queued are dropped without spending a request.
+          if (keepListRef.current.has(post.id)) {
+            dequeue(post);
+            persistOutcome(post.id, 'skipped');
+            journal(post.id, 'skipped', 'On the keep list');
+            setPurgeProgress(prev => prev ? ({
+              ...prev,
+              skipped: prev.skipped + 1,
+              remaining: purgeQueueRef.current.length
+            }) : null);
+            continue;
+          }
+
+          // Nothing is deleted without a backup; a dry run deletes nothing, so it needs none,
+          // and unliking leaves the liked post in place.
+          const needsBackup = deleter.mode !== 'dry-run' && operationOf(post) === 'delete';
+          if (needsBackup) {
+            try {
+              await backupPost(post, purgeTweetsRef.current.get(post.id), purgeJobRef.current?.id ?? null, deleter.mode);
+            } catch (err) {
+              if (cancelled) return;
+              console.error("Failed to back up post", err);
+              setStatus(ProcessStatus.PAUSED);
+              alert(`Purge paused: post ${post.id} could not be backed up locally, so it was not deleted. Free up browser storage and press Resume.`);
+              return;
+            }
+            if (cancelled) return;
+          }
+
+          limiter.consume();
+          const outcome = await deleter.deletePost(post);
+          limiter.record(outcome);
+          recordOutcome(post, outcome, needsBackup);
+          // Paused or stopped while the request was out: it is recorded, but nothing new is scheduled.
+          if (cancelled) return;
+
+          setPurgeProgress(prev => prev ? ({ ...prev, currentType: post.type, lastOutcome: outcome.status }) : null);
 
-        // Schedule next with countdown
-        let countdown = DELETION_INTERVAL_MS / 1000;
-        const interval = setInterval(() => {
-          countdown -= 1;
-          setPurgeProgress(prev => prev ? ({ ...prev, secondsToNext: Math.max(0, countdown) }) : null);
-          if (countdown <= 0) clearInterval(interval);
-        }, 1000);
+          if (outcome.status === 'auth-failed') {
+            setStatus(ProcessStatus.PAUSED);
+            alert(`Purge paused: X rejected the credentials (${outcome.message}). Sign in again and press Resume to continue with the remaining ${purgeQueueRef.current.length} posts.`);
+            return;
+          }
+          scheduleNext();
+          return;
+        }
+      };
 
-        purgeTimerRef.current = window.setTimeout(processNext, DELETION_INTERVAL_MS);
+      // Tracks the tick so a pause, stop or the next tick can wait for its request to be recorded.
+      const runTick = () => {
+        const tick: Promise<void> = processNext(purgeInFlightRef.current)
+          .catch(err => {
+            console.error("Purge step failed", err);
+            if (cancelled) return;
+            setStatus(ProcessStatus.PAUSED);
+            alert(`Purge paused: ${err instanceof Error ? err.message : String(err)}. Press Resume to try again.`);
+          })
+          .finally(() => {
+            if (purgeInFlightRef.current === tick) purgeInFlightRef.current = null;
+          });
+        purgeInFlightRef.current = tick;
       };
 
-      processNext();
+      scheduleNext();
+      flushTimer = window.setInterval(flushPurgedPosts, PURGED_FLUSH_INTERVAL_MS);
     }
     return () => {
+      cancelled = true;
       if (purgeTimerRef.current) window.clearTimeout(purgeTimerRef.current);
+      window.clearInterval(flushTimer);
+      flushPurgedPosts();
     };
   }, [status]);
 
+  // Re-render the countdown from the scheduler's next slot while purging.
+  useEffect(() => {
+    if (status !== ProcessStatus.PURGING) return;
+    const tick = window.setInterval(() => setNow(Date.now()), 250);
+    return () => window.clearInterval(tick);
+  }, [status]);
+
   const addKeyword = () => {
     if (keywordInput.trim()) {
       setFilters(prev => ({
@@ -226,19 +1117,151 @@ Proceed?`);
     }));
   };
 
-  // Helper to highlight matching keywords
-  const highlightText = (text: string) => {
-    if (filters.keywords.length === 0) return text;
-    
-    // Create a combined regex for all keywords
-    const regex = new RegExp(`(${filters.keywords.join('|')})`, 'gi');
-    const parts = text.split(regex);
-    
-    return parts.map((part, i) => 
-      filters.keywords.some(k => k.toLowerCase() === part.toLowerCase()) 
-        ? <mark key={i} className="bg-blue-500/30 text-blue-200 rounded px-0.5 border-b border-blue-400 no-underline">{part}</mark> 
-        : part
-    );
+  const toggleRequired = (attribute: PostAttribute) => {
+    setFilters(prev => ({
+      ...prev,
+      requires: prev.requires.includes(attribute)
+        ? prev.requires.filter(a => a !== attribute)
+        : [...prev.requires, attribute]
+    }));
+  };
+
+  const changeDateMode = (mode: 'fixed' | RelativeRange['bound']) => {
+    setFilters(prev => ({
+      ...prev,
+      relative: mode === 'fixed'
+        ? null
+        : { amount: mode === 'older' ? 2 : 6, unit: mode === 'older' ? 'y' : 'm', ...prev.relative, bound: mode },
+      asOf: null
+    }));
+  };
+
+  const updateRelative = (patch: Partial<RelativeRange>) => {
+    setFilters(prev => prev.relative ? { ...prev, relative: { ...prev.relative, ...patch }, asOf: null } : prev);
+  };
+
+  const changeTimeZone = (timeZone: string) => {
+    saveTimeZone(timeZone);
+    setFilters(prev => ({ ...prev, timeZone }));
+  };
+
+  // Narrows the date range to a month clicked in the analytics timeline, and the types to one segment's type.
+  const selectMonth = (month: string, type?: PostType) => {
+    const [year, monthNumber] = month.split('-').map(Number);
+    const lastDay = new Date(year, monthNumber, 0).getDate();
+    setFilters(prev => ({
+      ...prev,
+      relative: null,
+      dateFrom: `${month}-01`,
+      dateTo: `${month}-${String(lastDay).padStart(2, '0')}`,
+      postTypes: type ? [type] : prev.postTypes
+    }));
+  };
+
+  const addQueryTerm = (term: string) => {
+    setFilters(prev => {
+      const query = appendQueryTerm(prev.query, term);
+      return query === prev.query ? prev : { ...prev, query };
+    });
+  };
+
+  const applyPreset = (preset: FilterPreset) => {
+    setFilters(preset.filters);
+    setPreviewMode(preset.options.previewMode);
+    setDeleterMode(preset.options.deleterMode);
+    setRateProfile(preset.options.rateProfile);
+    setPresetError(null);
+    setPresetNotice(`Applied "${preset.name}".`);
+  };
+
+  const handleSavePreset = (name: string) => {
+    try {
+      setPresets(savePreset(name, filters, { previewMode, deleterMode, rateProfile }));
+      setPresetError(null);
+      setPresetNotice(`Saved "${name}".`);
+    } catch (err) {
+      setPresetError(err instanceof PresetError ? err.message : "The preset could not be saved.");
+    }
+  };
+
+  const handleDeletePreset = (preset: FilterPreset) => {
+    if (!confirm(`Delete the preset "${preset.name}"?`)) return;
+    setPresets(deletePreset(preset.id));
+    setPresetNotice(null);
+  };
+
+  const handleExportPresets = () => {
+    downloadFile('x-purge-presets.json', exportPresets(presets), 'application/json');
+  };
+
+  const handleExportReport = (format: ReportFormat) => {
+    const report = buildReport({
+      posts: filteredPosts,
+      audits: auditResults,
+      privacy: piiScan?.findings,
+      targetIds: new Set(purgeTargets.map(p => p.id)),
+      keepList,
+      account: archiveAccount?.username ?? null,
+      timeZone: filters.timeZone,
+      criteria: purgeByPolicy
+        ? `Retention policies: ${retentionRules.map(describeRule).join('; ')}`
+        : formatQuery(combineQueries(builderAst, parsedQuery.ast)) || 'All posts'
+    });
+    const { mimeType, render } = REPORT_FORMATS[format];
+    downloadFile(`x-purge-review-${report.generatedAt.slice(0, 10)}.${format}`, render(report), mimeType);
+  };
+
+  const handleImportPresets = async (file: File) => {
+    try {
+      const { presets: merged, imported } = importPresets(await file.text());
+      setPresets(merged);
+      setPresetError(null);
+      setPresetNotice(`Imported ${imported} preset${imported === 1 ? '' : 's'} from ${file.name}.`);
+    } catch (err) {
+      setPresetNotice(null);
+      setPresetError(err instanceof PresetError ? `${file.name}: ${err.message}` : `${file.name} could not be imported.`);
+    }
+  };
+
+  // Parsed here as well as in the worker so errors and highlights update with each keystroke.
+  const parsedQuery = useMemo((): { ast: QueryNode | null; error: QueryError | null } => {
+    try {
+      return { ast: parseQuery(filters.query), error: null };
+    } catch (e) {
+      if (e instanceof QueryParseError) return { ast: null, error: e.toJSON() };
+      throw e;
+    }
+  }, [filters.query]);
+
+  const builderAst = useMemo(() => builderQuery(filters), [filters]);
+  const highlights = useMemo(
+    () => highlightPatterns(combineQueries(builderAst, parsedQuery.ast)),
+    [builderAst, parsedQuery.ast]
+  );
+
+  // Helper to highlight query matches and the spans an audit flagged. The two layers may
+  // overlap, so the text is cut at every boundary and each piece styled by what covers it.
+  const highlightText = (text: string, flagged: FlaggedSpan[] = []) => {
+    const matches = matchRanges(text, highlights);
+    if (matches.length === 0 && flagged.length === 0) return text;
+
+    const cuts = [...new Set([0, text.length, ...matches.flat(), ...flagged.flatMap(f => [f.start, f.end])])].sort((a, b) => a - b);
+    return cuts.slice(0, -1).map((start, i) => {
+      const end = cuts[i + 1];
+      const piece = text.slice(start, end);
+      const matched = matches.some(([s, e]) => s <= start && end <= e);
+      const flag = flagged.find(f => f.start <= start && end <= f.end);
+      if (!matched && !flag) return piece;
+      return (
+        <mark
+          key={start}
+          title={flag ? flag.label || flag.category : undefined}
+          className={`rounded px-0.5 ${matched ? 'bg-blue-500/30 text-blue-200 border-b border-blue-400' : 'bg-transparent text-inherit'} ${flag ? 'underline decoration-wavy decoration-red-500' : 'no-underline'}`}
+        >
+          {piece}
+        </mark>
+      );
+    });
   };
 
   return (
@@ -252,11 +1275,25 @@ Proceed?`);
           </h1>
           <p className="text-gray-400 mt-1 font-medium">Manage your X history safely with precision filters.</p>
         </div>
-        <div className="flex gap-3">
+        <div className="flex gap-3 items-center">
+          <SessionPanel
+            session={session}
+            archiveAccount={archiveAccount}
+            busy={sessionBusy}
+            onSignIn={handleSignIn}
+            onSignOut={handleSignOut}
+          />
           <label className="bg-blue-600 hover:bg-blue-500 text-white px-6 py-2.5 rounded-full font-medium cursor-pointer transition-colors flex items-center gap-2 shadow-lg shadow-blue-900/20">
             <Upload size={18} />
-            Upload tweets.js
-            <input type="file" className="hidden" accept=".js,.json" onChange={handleFileUpload} />
+            Upload Archive
+            <input type="file" className="hidden" accept=".zip,.js,.json" multiple onChange={handleFileUpload} />
+          </label>
+          <label
+            title="Pick an extracted archive folder"
+            className="border border-gray-700 text-gray-300 p-2.5 rounded-full cursor-pointer hover:bg-gray-800 transition-colors"
+          >
+            <FolderOpen size={18} />
+            <input type="file" className="hidden" {...{ webkitdirectory: '' }} onChange={handleFileUpload} />
           </label>
         </div>
       </header>
@@ -264,6 +1301,18 @@ Proceed?`);
       <main className="max-w-6xl mx-auto grid grid-cols-1 lg:grid-cols-12 gap-8">
         {/* Sidebar Filters */}
         <aside className="lg:col-span-4 space-y-6">
+          <PresetPanel
+            presets={presets}
+            disabled={status === ProcessStatus.PURGING || status === ProcessStatus.PAUSED}
+            error={presetError}
+            notice={presetNotice}
+            onApply={applyPreset}
+            onSave={handleSavePreset}
+            onDelete={handleDeletePreset}
+            onExport={handleExportPresets}
+            onImport={handleImportPresets}
+          />
+
           <section className="glass-panel p-6 rounded-2xl">
             <div className="flex justify-between items-center mb-6">
               <h2 className="text-xl font-semibold flex items-center gap-2">
@@ -276,7 +1325,7 @@ Proceed?`);
               <div>
                 <label className="block text-sm text-gray-400 mb-3 uppercase tracking-wider font-bold">Post Types</label>
                 <div className="grid grid-cols-1 gap-2">
-                  {(['tweet', 'reply', 'repost'] as PostType[]).map(type => (
+                  {POST_TYPES.map(type => (
                     <button
                       key={type}
                       onClick={() => togglePostType(type)}
@@ -286,7 +1335,7 @@ Proceed?`);
                         : 'bg-gray-900 border-gray-800 text-gray-500'
                       }`}
                     >
-                      <span className="capitalize">{type}s</span>
+                      <span>{POST_TYPE_LABELS[type]}</span>
                       <div className={`h-5 w-5 rounded-full border-2 flex items-center justify-center ${
                         filters.postTypes.includes(type) ? 'border-blue-400 bg-blue-500' : 'border-gray-700'
                       }`}>
@@ -297,8 +1346,60 @@ Proceed?`);
                 </div>
               </div>
 
+              <div>
+                <label className="block text-sm text-gray-400 mb-2 uppercase tracking-wider font-bold">Must Contain</label>
+                <div className="flex flex-wrap gap-2">
+                  {POST_ATTRIBUTES.map(({ attribute, label }) => (
+                    <button
+                      key={attribute}
+                      onClick={() => toggleRequired(attribute)}
+                      className={`px-3 py-1.5 rounded-lg border text-xs font-bold transition-all ${
+                        filters.requires.includes(attribute)
+                        ? 'bg-blue-600/20 border-blue-500/50 text-blue-100'
+                        : 'bg-gray-900 border-gray-800 text-gray-500'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
               <div>
                 <label className="block text-sm text-gray-400 mb-2 uppercase tracking-wider font-bold">Date Range</label>
+                <div className="grid grid-cols-3 gap-1 mb-3">
+                  {([['fixed', 'Between'], ['older', 'Older than'], ['newer', 'Last']] as const).map(([mode, label]) => (
+                    <button
+                      key={mode}
+                      onClick={() => changeDateMode(mode)}
+                      className={`py-1.5 rounded-lg border text-xs font-bold transition-all ${
+                        (filters.relative?.bound ?? 'fixed') === mode
+                        ? 'bg-blue-600/20 border-blue-500/50 text-blue-100'
+                        : 'bg-gray-900 border-gray-800 text-gray-500'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {filters.relative ? (
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      min={0}
+                      className="w-20 bg-gray-900 border border-gray-800 rounded-lg p-2.5 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+                      value={filters.relative.amount}
+                      onChange={(e) => updateRelative({ amount: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                    />
+                    <select
+                      className="flex-1 bg-gray-900 border border-gray-800 rounded-lg p-2.5 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+                      value={filters.relative.unit}
+                      onChange={(e) => updateRelative({ unit: e.target.value as AgeUnit })}
+                    >
+                      {AGE_UNITS.map(({ unit, label }) => <option key={unit} value={unit}>{label}</option>)}
+                    </select>
+                  </div>
+                ) : (
                 <div className="grid grid-cols-1 gap-3">
                   <div className="relative">
                     <Calendar className="absolute left-3 top-3 text-gray-500" size={16} />
@@ -319,6 +1420,25 @@ Proceed?`);
                     />
                   </div>
                 </div>
+                )}
+                {filters.relative && filters.asOf !== null && (
+                  <p className="text-[10px] text-yellow-500/80 font-bold mt-2 flex items-center justify-between gap-2">
+                    Counted from {formatCalendarDate(calendarDate(filters.asOf, filters.timeZone))}, when this purge started
+                    <button onClick={() => setFilters({ ...filters, asOf: null })} className="text-gray-400 hover:text-white underline flex-shrink-0">
+                      Count from today
+                    </button>
+                  </p>
+                )}
+                <label className="flex items-center gap-2 mt-3 text-xs text-gray-500 font-bold">
+                  <Globe size={12} /> Time zone
+                  <select
+                    className="flex-1 min-w-0 bg-gray-900 border border-gray-800 rounded-lg px-2 py-1.5 text-xs font-bold text-gray-300 focus:outline-none"
+                    value={filters.timeZone}
+                    onChange={(e) => changeTimeZone(e.target.value)}
+                  >
+                    {timeZones.map(zone => <option key={zone} value={zone}>{zone}</option>)}
+                  </select>
+                </label>
               </div>
 
               <div>
@@ -373,9 +1493,142 @@ Proceed?`);
                   </div>
                 )}
               </div>
+
+              <div>
+                <label className="block text-sm text-gray-400 mb-2 uppercase tracking-wider font-bold">Query</label>
+                <div className="relative">
+                  <Terminal className="absolute left-3 top-3 text-gray-500" size={16} />
+                  <input
+                    type="text"
+                    spellCheck={false}
+                    placeholder='type:reply -@friend ("crypto" OR regex:/nft\b/i) likes:<5'
+                    className={`w-full bg-gray-900 border rounded-lg p-2.5 pl-10 text-sm font-mono focus:outline-none focus:ring-1 ${
+                      parsedQuery.error ? 'border-red-500/60 focus:ring-red-500' : 'border-gray-800 focus:ring-blue-500'
+                    }`}
+                    value={filters.query}
+                    onChange={(e) => setFilters({...filters, query: e.target.value})}
+                  />
+                </div>
+                {parsedQuery.error && (
+                  <div className="mt-2 p-2 rounded-lg bg-red-500/5 border border-red-500/20">
+                    <p className="text-[11px] font-mono text-gray-400 break-all whitespace-pre-wrap">
+                      {filters.query.slice(0, parsedQuery.error.start)}
+                      <span className="text-red-300 bg-red-500/20 underline decoration-wavy decoration-red-500">
+                        {filters.query.slice(parsedQuery.error.start, parsedQuery.error.end) || ' '}
+                      </span>
+                      {filters.query.slice(parsedQuery.error.end)}
+                    </p>
+                    <p className="text-[10px] text-red-400 mt-1">{parsedQuery.error.message}. Nothing is selected until the query is fixed.</p>
+                  </div>
+                )}
+                <p className="text-[10px] text-gray-600 mt-2 leading-tight">
+                  Combined with the controls above. Supports from: to: older: newer: type: has: lang: likes: reposts: domain: replyto: @mention #hashtag "phrase" regex:/…/ OR, parentheses and -exclusions.
+                </p>
+                {builderAst && (
+                  <p className="text-[10px] text-gray-500 mt-2 font-mono break-all" title="The controls above as a query">
+                    <span className="text-gray-600 font-sans font-bold uppercase tracking-wider mr-1">Builder:</span>
+                    {formatQuery(builderAst)}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm text-gray-400 mb-2 uppercase tracking-wider font-bold">Deletion Backend</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {DELETER_MODES.map(({ mode, label }) => (
+                    <button
+                      key={mode}
+                      onClick={() => setDeleterMode(mode)}
+                      disabled={status === ProcessStatus.PURGING || status === ProcessStatus.PAUSED}
+                      className={`flex items-center justify-center gap-1.5 py-2 rounded-lg border text-xs font-bold transition-all disabled:opacity-50 ${
+                        deleterMode === mode
+                        ? mode === 'x-api' ? 'bg-red-600/20 border-red-500/50 text-red-200' : 'bg-blue-600/20 border-blue-500/50 text-blue-100'
+                        : 'bg-gray-900 border-gray-800 text-gray-500'
+                      }`}
+                    >
+                      <Server size={12} />
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-[10px] text-gray-600 mt-2 leading-tight">
+                  {deleterMode === 'dry-run' && 'Nothing is deleted on X. Posts are only removed from this session.'}
+                  {deleterMode === 'mock-server' && 'Requests go to the local mock API started with npm run mock:x-api.'}
+                  {deleterMode === 'x-api' && 'Posts are permanently deleted from your X account.'}
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm text-gray-400 mb-2 uppercase tracking-wider font-bold">Rate Profile</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {(Object.keys(RATE_LIMIT_PROFILES) as RateLimitProfile[]).map(profile => (
+                    <button
+                      key={profile}
+                      onClick={() => setRateProfile(profile)}
+                      disabled={status === ProcessStatus.PURGING || status === ProcessStatus.PAUSED}
+                      className={`flex flex-col items-center justify-center py-2 rounded-lg border text-xs font-bold transition-all disabled:opacity-50 ${
+                        rateProfile === profile
+                        ? 'bg-blue-600/20 border-blue-500/50 text-blue-100'
+                        : 'bg-gray-900 border-gray-800 text-gray-500'
+                      }`}
+                    >
+                      <span className="flex items-center gap-1.5"><Gauge size={12} />{RATE_LIMIT_PROFILES[profile].label}</span>
+                      <span className="text-[10px] font-medium opacity-70">≤{RATE_LIMIT_PROFILES[profile].perMinute}/min</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
             </div>
           </section>
 
+          <AuditSettingsPanel
+            settings={auditSettings}
+            disabled={status === ProcessStatus.AUDITING}
+            error={auditError}
+            onChange={updateAuditSettings}
+            onClearCache={handleClearAuditCache}
+          />
+
+          {recipients.length > 0 && (
+            <RecipientPanel
+              recipients={recipients}
+              selected={filters.recipients}
+              followingKnown={following !== null}
+              disabled={status !== ProcessStatus.IDLE}
+              onChange={keys => setFilters({ ...filters, recipients: keys })}
+            />
+          )}
+
+          <RetentionPanel
+            rules={retentionRules}
+            result={retentionResult}
+            active={purgeByPolicy}
+            disabled={status === ProcessStatus.PURGING || status === ProcessStatus.PAUSED}
+            onChange={updateRetentionRules}
+            onToggleActive={togglePurgeByPolicy}
+          />
+
+          {backupCount > 0 && (
+            <BackupPanel
+              count={backupCount}
+              disabled={status === ProcessStatus.PURGING}
+              onDownload={handleDownloadBackups}
+              onClear={handleClearBackups}
+            />
+          )}
+
+          {runs.length > 0 && (
+            <PurgeHistoryPanel
+              runs={runs}
+              activeRunId={runReport?.run.id ?? null}
+              disabled={status === ProcessStatus.PURGING || status === ProcessStatus.PAUSED}
+              onOpen={openRunReport}
+              onClear={handleClearJournal}
+            />
+          )}
+
+          {importReport && <ImportReport report={importReport} onDismiss={() => setImportReport(null)} />}
+
           {allPosts.length > 0 && (
             <section className="glass-panel p-6 rounded-2xl">
               <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
@@ -389,7 +1642,7 @@ Proceed?`);
                 </div>
                 <div className="flex justify-between items-center text-sm">
                   <span className="text-gray-400 font-medium">Purge Target Count</span>
-                  <span className="font-bold text-blue-400">{filteredPosts.length}</span>
+                  <span className="font-bold text-blue-400">{purgeTargets.length}</span>
                 </div>
                 {filters.keywords.length > 0 && (
                   <div className="flex justify-between items-center text-sm pt-2 border-t border-gray-800/50 mt-2">
@@ -397,25 +1650,43 @@ Proceed?`);
                       <Hash size={12} /> Keyword Hits
                     </span>
                     <span className="font-bold text-blue-300">
-                      {allPosts.filter(p => filters.keywords.some(k => p.full_text.toLowerCase().includes(k.toLowerCase()))).length}
+                      {keywordHits}
                     </span>
                   </div>
                 )}
+                {retentionResult && !retentionResult.error && (
+                  <div className="pt-2 border-t border-gray-800/50 mt-2 space-y-1.5">
+                    <p className="text-[10px] text-orange-400/70 uppercase font-black tracking-widest">Retention Rules</p>
+                    {retentionRules.map(rule => (
+                      <div key={rule.id} className="flex justify-between items-center gap-3 text-xs">
+                        <span className="text-gray-400 truncate" title={describeRule(rule)}>{describeRule(rule)}</span>
+                        <span className={`font-bold tabular-nums ${rule.action === 'delete' ? 'text-red-300' : 'text-green-300'}`}>
+                          {rule.action === 'delete' ? '-' : '+'}{retentionResult.ruleCounts[rule.id] ?? 0}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {piiScan && piiScan.findings.size > 0 && (
+                  <div className="pt-2 border-t border-gray-800/50 mt-2 space-y-1.5">
+                    <p className="text-[10px] text-red-400/70 uppercase font-black tracking-widest">Privacy Scan • {piiScan.findings.size} posts</p>
+                    {(Object.keys(PII_KIND_LABELS) as PiiKind[]).filter(kind => piiScan.counts[kind]).map(kind => (
+                      <div key={kind} className="flex justify-between items-center gap-3 text-xs">
+                        <span className="text-gray-400">{PII_KIND_LABELS[kind]}</span>
+                        <span className="font-bold tabular-nums text-red-300">{piiScan.counts[kind]}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
                 <div className="pt-4 border-t border-gray-800">
                   <p className="text-[10px] text-gray-500 uppercase font-black mb-3 tracking-widest">Active Batch Breakdown</p>
                   <div className="grid grid-cols-3 gap-2 text-center">
-                    <div className="bg-gray-900 p-2 rounded-lg border border-gray-800/30">
-                      <div className="text-[10px] text-gray-500 uppercase font-bold">Tweets</div>
-                      <div className="font-bold text-sm">{filteredPosts.filter(p => p.type === 'tweet').length}</div>
-                    </div>
-                    <div className="bg-gray-900 p-2 rounded-lg border border-gray-800/30">
-                      <div className="text-[10px] text-gray-500 uppercase font-bold">Replies</div>
-                      <div className="font-bold text-sm">{filteredPosts.filter(p => p.type === 'reply').length}</div>
-                    </div>
-                    <div className="bg-gray-900 p-2 rounded-lg border border-gray-800/30">
-                      <div className="text-[10px] text-gray-500 uppercase font-bold">Reposts</div>
-                      <div className="font-bold text-sm">{filteredPosts.filter(p => p.type === 'repost').length}</div>
-                    </div>
+                    {POST_TYPES.map(type => (
+                      <div key={type} className="bg-gray-900 p-2 rounded-lg border border-gray-800/30">
+                        <div className="text-[10px] text-gray-500 uppercase font-bold">{POST_TYPE_LABELS[type]}</div>
+                        <div className="font-bold text-sm">{targetTypeCounts[type]}</div>
+                      </div>
+                    ))}
                   </div>
                 </div>
               </div>
@@ -429,9 +1700,15 @@ Proceed?`);
           <div className="flex flex-col md:flex-row gap-4 items-center justify-between glass-panel p-4 rounded-2xl sticky top-4 z-20">
             <div className="flex items-center gap-4">
                <span className="text-sm text-gray-400 font-semibold px-2 py-1 bg-gray-800 rounded-lg">
-                {filteredPosts.length} Targeted for Purge
+                {purgeTargets.length} Targeted for Purge
                </span>
-               {previewMode === 'keywords' && (
+               <ExportMenu disabled={filteredPosts.length === 0 || status !== ProcessStatus.IDLE} onExport={handleExportReport} />
+               {purgeByPolicy && (
+                 <span className="text-[10px] bg-orange-500/20 text-orange-400 font-black uppercase px-2 py-1 rounded-md border border-orange-500/30">
+                   Retention Policy
+                 </span>
+               )}
+               {previewMode === 'keywords' && !purgeByPolicy && (
                  <span className="text-[10px] bg-blue-500/20 text-blue-400 font-black uppercase px-2 py-1 rounded-md border border-blue-500/30">
                    Keyword Preview On
                  </span>
@@ -447,7 +1724,8 @@ Proceed?`);
               </button>
               <button 
                 onClick={startPurge}
-                disabled={filteredPosts.length === 0 || status !== ProcessStatus.IDLE}
+                disabled={purgeTargets.length === 0 || status !== ProcessStatus.IDLE || !!purgeBlockedReason}
+                title={purgeBlockedReason || undefined}
                 className="flex-1 md:flex-none bg-red-600 hover:bg-red-500 text-white px-8 py-2.5 rounded-full font-black disabled:opacity-50 flex items-center justify-center gap-2 shadow-lg shadow-red-900/40 transition-all text-sm uppercase tracking-wider"
               >
                 <Trash2 size={18} /> Safe Purge
@@ -455,8 +1733,57 @@ Proceed?`);
             </div>
           </div>
 
+          {purgeBlockedReason && purgeTargets.length > 0 && (
+            <div className="flex items-center gap-3 px-4 py-3 rounded-2xl border border-yellow-800/40 bg-yellow-900/10 text-yellow-400 text-xs font-bold">
+              <Lock size={14} className="flex-shrink-0" />
+              {purgeBlockedReason}
+            </div>
+          )}
+
+          {resumableJob && status === ProcessStatus.IDLE && (
+            <div className="glass-panel p-5 rounded-2xl border-yellow-800/40 bg-yellow-900/5 flex flex-col md:flex-row gap-4 md:items-center justify-between">
+              <div>
+                <h3 className="font-bold text-yellow-400 flex items-center gap-2">
+                  <RotateCcw size={16} /> Unfinished purge found
+                </h3>
+                <p className="text-xs text-gray-400 mt-1">
+                  Started {new Date(resumableJob.job.createdAt).toLocaleString()} • {resumableJob.job.completed} of {resumableJob.job.total} removed
+                  {resumableJob.job.failed > 0 && `, ${resumableJob.job.failed} failed`}
+                </p>
+                <p className="text-[10px] text-gray-500 mt-1 uppercase font-bold tracking-wider">
+                  {resumableJob.job.retention ? (
+                    `${resumableJob.job.retention.rules.length} retention rules as of ${new Date(resumableJob.job.retention.asOf).toLocaleDateString()}`
+                  ) : (
+                    <>
+                      {describeDateRange(resumableJob.job.filters)} • {resumableJob.job.filters.postTypes.join(', ')}
+                      {resumableJob.job.filters.keywords.length > 0 && ` • "${resumableJob.job.filters.keywords.join('", "')}"`}
+                      {resumableJob.job.filters.query && ` • ${resumableJob.job.filters.query}`}
+                    </>
+                  )}
+                  {' • '}{DELETER_MODES.find(d => d.mode === resumableJob.job.deleterMode)?.label}
+                </p>
+                {resumeBlockedReason && <p className="text-xs text-yellow-500 mt-2 flex items-center gap-1.5"><Lock size={12} /> {resumeBlockedReason}</p>}
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <button
+                  onClick={discardSavedPurge}
+                  className="border border-gray-700 text-gray-400 hover:text-white hover:bg-gray-800 px-4 py-2 rounded-xl text-xs font-bold transition-all"
+                >
+                  Discard
+                </button>
+                <button
+                  onClick={resumeSavedPurge}
+                  disabled={!!resumeBlockedReason}
+                  className="bg-yellow-500 hover:bg-yellow-400 text-black px-4 py-2 rounded-xl text-xs font-black disabled:opacity-50 flex items-center gap-2 transition-all"
+                >
+                  <Play size={14} /> Resume purge of {resumableJob.pending.length} remaining posts
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Purge Progress Dashboard */}
-          {status === ProcessStatus.PURGING && purgeProgress && (
+          {(status === ProcessStatus.PURGING || status === ProcessStatus.PAUSED) && purgeProgress && (
             <div className="glass-panel p-6 rounded-3xl border-red-900/30 bg-red-900/5 relative overflow-hidden">
               <div className="absolute top-0 left-0 w-full h-1 bg-red-500/20">
                 <div 
@@ -468,16 +1795,38 @@ Proceed?`);
               <div className="flex justify-between items-start mb-6 pt-2">
                 <div>
                   <h3 className="text-xl font-bold text-red-400 flex items-center gap-2">
-                    <Clock className="animate-spin-slow" /> Purging Post History
+                    {status === ProcessStatus.PAUSED
+                      ? <><Pause /> Purge Paused</>
+                      : <><Clock className="animate-spin-slow" /> Purging Post History</>}
                   </h3>
-                  <p className="text-xs text-gray-400 mt-1 uppercase font-bold tracking-tighter">Respecting X Anti-Spam Rate Limits (10 Deletions/Min)</p>
+                  <p className="text-xs text-gray-400 mt-1 uppercase font-bold tracking-tighter">
+                    Respecting X Rate Limits ({RATE_LIMIT_PROFILES[rateLimiterRef.current?.delete.profile ?? rateProfile].label} Profile)
+                    {purgeProgress.estimatedEndAt && <> • ETA {new Date(purgeProgress.estimatedEndAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</>}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  {status === ProcessStatus.PAUSED ? (
+                    <button
+                      onClick={continuePurge}
+                      className="bg-gray-800 hover:bg-green-900/40 text-gray-300 hover:text-green-200 border border-gray-700 hover:border-green-800 px-4 py-2 rounded-xl text-xs font-bold flex items-center gap-2 transition-all"
+                    >
+                      <Play size={14} /> Resume
+                    </button>
+                  ) : (
+                    <button
+                      onClick={pausePurge}
+                      className="bg-gray-800 hover:bg-yellow-900/40 text-gray-300 hover:text-yellow-200 border border-gray-700 hover:border-yellow-800 px-4 py-2 rounded-xl text-xs font-bold flex items-center gap-2 transition-all"
+                    >
+                      <Pause size={14} /> Pause
+                    </button>
+                  )}
+                  <button 
+                    onClick={stopPurge}
+                    className="bg-gray-800 hover:bg-red-900/40 text-gray-300 hover:text-red-200 border border-gray-700 hover:border-red-800 px-4 py-2 rounded-xl text-xs font-bold flex items-center gap-2 transition-all"
+                  >
+                    <Square size={14} /> Terminate
+                  </button>
                 </div>
-                <button 
-                  onClick={stopPurge}
-                  className="bg-gray-800 hover:bg-red-900/40 text-gray-300 hover:text-red-200 border border-gray-700 hover:border-red-800 px-4 py-2 rounded-xl text-xs font-bold flex items-center gap-2 transition-all"
-                >
-                  <Pause size={14} /> Terminate
-                </button>
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
@@ -491,12 +1840,12 @@ Proceed?`);
                 </div>
                 <div className="bg-black/40 p-4 rounded-2xl border border-white/5 backdrop-blur-md">
                   <div className="text-[10px] text-gray-500 uppercase font-black mb-1 tracking-widest">Next Request</div>
-                  <div className="text-3xl font-black text-yellow-500 tabular-nums">{Math.ceil(purgeProgress.secondsToNext)}s</div>
+                  <div className="text-3xl font-black text-yellow-500 tabular-nums">{status === ProcessStatus.PAUSED ? '--' : `${purgeProgress.nextRequestAt ? Math.max(0, Math.ceil((purgeProgress.nextRequestAt - now) / 1000)) : 0}s`}</div>
                 </div>
               </div>
 
               <div className="flex justify-between mt-2 text-[10px] text-gray-500 font-black uppercase tracking-widest">
-                <span>Cleanup Progress: {purgeProgress.completed} removed</span>
+                <span>Cleanup Progress: {purgeProgress.completed} removed{purgeProgress.failed > 0 && <span className="text-red-400"> • {purgeProgress.failed} failed</span>}{purgeProgress.skipped > 0 && <span className="text-green-400"> • {purgeProgress.skipped} kept</span>}{purgeProgress.lastOutcome === 'rate-limited' && <span className="text-yellow-500"> • rate limited, waiting</span>}</span>
                 <span>{Math.round((purgeProgress.completed / purgeProgress.total) * 100)}%</span>
               </div>
             </div>
@@ -504,6 +1853,33 @@ Proceed?`);
 
           {/* List Content */}
           <div className="space-y-4">
+            {analytics && analytics.months.length > 0 && (status === ProcessStatus.IDLE || status === ProcessStatus.AUDITING) && (
+              <AnalyticsDashboard
+                analytics={analytics}
+                timeZone={filters.timeZone}
+                disabled={status !== ProcessStatus.IDLE}
+                onSelectMonth={selectMonth}
+                onAddQuery={addQueryTerm}
+              />
+            )}
+            {(status === ProcessStatus.IDLE || status === ProcessStatus.AUDITING) && filteredPosts.length > 0 && (
+              <SelectionBar
+                matching={filteredPosts.length}
+                selected={purgeTargets.length}
+                kept={keepList.size}
+                hasAudits={hasAudits}
+                privacyFindings={privacyFindingCount}
+                threadPostsMissing={partialThreads.missing}
+                disabled={status !== ProcessStatus.IDLE}
+                onSelectAll={() => setSelectedIds(null)}
+                onSelectNone={() => setSelectedIds(new Set())}
+                onInvert={invertSelection}
+                onSelectByAudit={selectByAuditResult}
+                onSelectPrivacy={() => piiScan && setSelectedIds(selectByAudit(filteredPosts, piiScan.findings, { category: 'personal-info' }))}
+                onClearKeepList={clearKeepList}
+                onIncludeThreads={() => includeThreads([...partialThreads.missingByRoot.keys()])}
+              />
+            )}
             {status === ProcessStatus.LOADING && (
               <div className="text-center py-32 bg-gray-900/20 rounded-[2rem] border-2 border-dashed border-gray-800">
                 <div className="relative h-16 w-16 mx-auto mb-8">
@@ -512,10 +1888,100 @@ Proceed?`);
                 </div>
                 <p className="text-gray-300 font-black text-xl tracking-tight">Deciphering X Archive</p>
                 <p className="text-gray-500 text-sm mt-2 max-w-xs mx-auto">Reconstructing your posting history from the local database files...</p>
+                {importProgress && importProgress.totalBytes > 0 && (
+                  <div className="max-w-xs mx-auto mt-8">
+                    <div className="h-1 bg-blue-500/20 rounded-full overflow-hidden">
+                      <div className="h-full bg-blue-500 transition-all" style={{ width: `${Math.min(100, (importProgress.bytesRead / importProgress.totalBytes) * 100)}%` }} />
+                    </div>
+                    <div className="flex justify-between mt-2 text-[10px] text-gray-500 font-black uppercase tracking-widest tabular-nums">
+                      <span>{(importProgress.bytesRead / 1048576).toFixed(1)} / {(importProgress.totalBytes / 1048576).toFixed(1)} MB</span>
+                      <span>{importProgress.postsParsed.toLocaleString()} posts</span>
+                    </div>
+                    {importProgress.fileName && <p className="text-[10px] text-gray-600 font-mono mt-1 truncate">{importProgress.fileName}</p>}
+                  </div>
+                )}
+                <button
+                  onClick={cancelImport}
+                  className="mt-8 bg-gray-800 hover:bg-gray-700 px-6 py-2 rounded-xl text-xs font-bold uppercase tracking-widest transition-all"
+                >
+                  Cancel
+                </button>
+              </div>
+            )}
+
+            {auditProgress && (
+              <div className={`p-5 rounded-2xl border flex items-start gap-3 ${
+                auditProgress.failed > 0 ? 'border-yellow-800/40 bg-yellow-900/10' : 'border-blue-800/40 bg-blue-900/10'
+              }`}>
+                <ShieldAlert size={18} className={`mt-0.5 flex-shrink-0 ${auditProgress.failed > 0 ? 'text-yellow-400' : 'text-blue-400'}`} />
+                <div className="flex-1">
+                  <p className="font-bold text-sm text-gray-200">
+                    {status === ProcessStatus.AUDITING ? 'Auditing' : auditProgress.cancelled ? 'Audit cancelled' : 'Audit finished'}
+                    {' • '}audited {auditProgress.audited.toLocaleString()} / {auditProgress.total.toLocaleString()}
+                    {auditProgress.cached > 0 && <span className="text-gray-500"> ({auditProgress.cached.toLocaleString()} from cache)</span>}
+                    {auditProgress.failed > 0 && <span className="text-yellow-400"> • {auditProgress.failed.toLocaleString()} not scored</span>}
+                  </p>
+                  <div className="h-1 bg-blue-500/20 rounded-full overflow-hidden mt-3">
+                    <div className="h-full bg-blue-500 transition-all" style={{ width: `${((auditProgress.audited + auditProgress.failed) / Math.max(1, auditProgress.total)) * 100}%` }} />
+                  </div>
+                  {auditProgress.lastError && <p className="text-[10px] text-gray-500 mt-2">Last error: {auditProgress.lastError}</p>}
+                  {auditItemErrors.length > 0 && (
+                    <details className="mt-2">
+                      <summary className="text-[10px] text-yellow-400 font-bold uppercase tracking-wider cursor-pointer">
+                        {auditProgress.invalid.toLocaleString()} invalid results rejected
+                      </summary>
+                      <ul className="mt-1 space-y-0.5 max-h-32 overflow-y-auto">
+                        {auditItemErrors.map((err, i) => (
+                          <li key={i} className="text-[10px] text-gray-500 font-mono">{err.postId ? `${err.postId}: ` : ''}{err.message}</li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
+                </div>
+                {status === ProcessStatus.AUDITING ? (
+                  <button onClick={cancelAudit} className="bg-gray-800 hover:bg-gray-700 px-4 py-1.5 rounded-xl text-xs font-bold uppercase tracking-widest transition-all">
+                    Cancel
+                  </button>
+                ) : (
+                  <button onClick={() => setAuditProgress(null)} className="text-gray-600 hover:text-white"><X size={16} /></button>
+                )}
+              </div>
+            )}
+
+            {importError && status === ProcessStatus.IDLE && (
+              <div className="p-5 rounded-2xl border border-red-800/40 bg-red-900/10 flex items-start gap-3">
+                <AlertTriangle size={18} className="text-red-400 mt-0.5 flex-shrink-0" />
+                <div className="flex-1">
+                  <p className="text-red-300 font-bold text-sm">Archive import failed</p>
+                  <p className="text-gray-400 text-sm mt-1">{importError.message}</p>
+                  {importError.fileName && <p className="text-[10px] text-gray-600 font-mono mt-1">{importError.fileName}</p>}
+                </div>
+                <button onClick={() => setImportError(null)} className="text-gray-600 hover:text-white"><X size={16} /></button>
+              </div>
+            )}
+
+            {workerError && (
+              <div className="p-5 rounded-2xl border border-red-800/40 bg-red-900/10 flex items-start gap-3">
+                <AlertTriangle size={18} className="text-red-400 mt-0.5 flex-shrink-0" />
+                <div className="flex-1">
+                  <p className="text-red-300 font-bold text-sm">Could not {workerError.task}</p>
+                  <p className="text-gray-400 text-sm mt-1">{workerError.message}</p>
+                  <p className="text-[10px] text-gray-600 mt-1">Reload the page and import the archive again.</p>
+                </div>
+                <button onClick={() => setWorkerError(null)} className="text-gray-600 hover:text-white"><X size={16} /></button>
               </div>
             )}
 
-            {status === ProcessStatus.COMPLETED && (
+            {runReport && (status === ProcessStatus.IDLE || status === ProcessStatus.COMPLETED) && (
+              <RunReportPanel
+                report={runReport}
+                retryBlockedReason={retryBlockedReason}
+                onRetryFailed={retryFailedItems}
+                onDismiss={dismissRunReport}
+              />
+            )}
+
+            {status === ProcessStatus.COMPLETED && !runReport && (
               <div className="text-center py-24 bg-green-900/5 rounded-[2rem] border-2 border-dashed border-green-800/40">
                 <div className="bg-green-500/10 h-24 w-24 rounded-full flex items-center justify-center mx-auto mb-8 border border-green-500/20">
                   <CheckCircle2 className="text-green-500" size={48} />
@@ -540,72 +2006,47 @@ Proceed?`);
                 {previewMode === 'keywords' ? (
                   <p className="text-sm text-gray-600 mt-3 max-w-sm mx-auto">No posts in the current selection contain the keywords you've entered. Try broader terms or adjusting the date range.</p>
                 ) : (
-                  <p className="text-sm text-gray-600 mt-3 max-w-xs mx-auto">Upload your <code className="bg-gray-800 px-2 py-0.5 rounded text-blue-400 font-mono">tweets.js</code> to initialize the cleanup engine.</p>
+                  <p className="text-sm text-gray-600 mt-3 max-w-xs mx-auto">Upload your X archive <code className="bg-gray-800 px-2 py-0.5 rounded text-blue-400 font-mono">.zip</code> to initialize the cleanup engine.</p>
                 )}
               </div>
             )}
 
-            {(status === ProcessStatus.IDLE || status === ProcessStatus.AUDITING) && filteredPosts.map(post => {
-              const audit = auditResults.get(post.id);
-              
-              return (
-                <div key={post.id} className="glass-panel p-6 rounded-[1.5rem] hover:border-gray-500/50 transition-all group relative overflow-hidden border-transparent hover:shadow-xl hover:shadow-blue-500/5">
-                  <div className="flex justify-between items-start mb-5">
-                    <div className="flex gap-3 items-center">
-                      <span className={`text-[10px] uppercase font-black tracking-widest px-3 py-1 rounded-lg border shadow-sm ${
-                        post.type === 'tweet' ? 'bg-blue-500/10 border-blue-500/30 text-blue-400' :
-                        post.type === 'reply' ? 'bg-purple-500/10 border-purple-500/30 text-purple-400' :
-                        'bg-orange-500/10 border-orange-500/30 text-orange-400'
-                      }`}>
-                        {post.type}
-                      </span>
-                      <span className="text-[10px] text-gray-500 font-bold tabular-nums bg-white/5 px-2 py-1 rounded-md">
-                        {new Date(post.created_at).toLocaleDateString()} • {new Date(post.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                      </span>
-                    </div>
-                    {audit && (
-                      <div className="flex items-center gap-2">
-                         <span className={`text-[10px] uppercase font-black px-3 py-1 rounded-full border shadow-lg ${
-                          audit.riskLevel === 'High' ? 'bg-red-600 text-white border-red-500 shadow-red-900/20' :
-                          audit.riskLevel === 'Medium' ? 'bg-yellow-500 text-black border-yellow-400 shadow-yellow-900/10' :
-                          'bg-green-600 text-white border-green-500 shadow-green-900/10'
-                        }`}>
-                          {audit.riskLevel} Risk
-                        </span>
-                      </div>
-                    )}
-                  </div>
-                  
-                  <p className="text-gray-100 text-base leading-[1.6] font-medium">
-                    {highlightText(post.full_text)}
-                  </p>
-                  
-                  {audit && (
-                    <div className="mt-6 p-4 bg-blue-500/5 rounded-2xl border border-blue-500/10 flex items-start gap-3 group-hover:bg-blue-500/10 transition-colors">
-                      <ShieldAlert size={16} className="text-blue-400 mt-1 flex-shrink-0 animate-pulse" />
-                      <div>
-                        <p className="text-[10px] text-blue-400 font-black uppercase tracking-widest">Gemini Audit Report</p>
-                        <p className="text-sm text-gray-300 mt-1.5 leading-relaxed font-medium">{audit.reason}</p>
-                      </div>
-                    </div>
-                  )}
-
-                  <div className="mt-6 pt-5 border-t border-white/5 flex gap-8 text-gray-600 text-[10px] font-black uppercase tracking-widest">
-                    <div className="flex items-center gap-2 group-hover:text-pink-500/50 transition-colors">
-                      <div className="h-2 w-2 rounded-full bg-pink-500/20" />
-                      {post.favorite_count} Favorites
-                    </div>
-                    <div className="flex items-center gap-2 group-hover:text-green-500/50 transition-colors">
-                      <div className="h-2 w-2 rounded-full bg-green-500/20" />
-                      {post.retweet_count} Reposts
-                    </div>
-                    <div className="ml-auto text-gray-700 group-hover:text-gray-500 transition-colors flex items-center gap-2">
-                       <Hash size={12} /> ID {post.id}
-                    </div>
-                  </div>
-                </div>
-              );
-            })}
+            {(status === ProcessStatus.IDLE || status === ProcessStatus.AUDITING) && filteredPosts.length > 0 && (
+              <PostFeed
+                posts={feedPosts}
+                sort={feedSort}
+                onSortChange={changeFeedSort}
+                renderPost={post => {
+                  const entry = feedEntryById.get(post.id);
+                  const members = entry?.rootId === post.id ? threadIndex.members.get(post.id) : undefined;
+                  return (
+                    <PostCard
+                      post={post}
+                      audit={auditResults.get(post.id)}
+                      renderText={highlightText}
+                      matchedRule={policyRuleByPost.get(post.id)}
+                      auditSource={auditSources.get(post.id)}
+                      privacy={piiScan?.findings.get(post.id)}
+                      selected={isSelected(post.id) && !keepList.has(post.id)}
+                      kept={keepList.has(post.id)}
+                      onToggleSelected={entry?.matches === false ? undefined : () => toggleSelected(post.id)}
+                      onToggleKept={() => toggleKept(post.id)}
+                      depth={entry?.depth}
+                      outsideFilter={entry?.matches === false}
+                      timeZone={filters.timeZone}
+                      thread={members && {
+                        posts: members.length,
+                        matching: members.length - (partialThreads.missingByRoot.get(post.id) ?? 0),
+                        expanded: expandedThreads.has(post.id),
+                        onToggle: () => toggleThread(post.id),
+                        onIncludeRest: () => includeThreads([post.id]),
+                        onPurge: status === ProcessStatus.IDLE && !purgeBlockedReason ? () => purgeThread(post.id) : undefined
+                      }}
+                    />
+                  );
+                }}
+              />
+            )}
           </div>
         </div>
       </main>
@@ -632,7 +2073,7 @@ Proceed?`);
                 <div className="bg-blue-600/10 border border-blue-500/30 text-blue-400 h-14 w-14 rounded-3xl flex items-center justify-center flex-shrink-0 font-black text-xl shadow-lg shadow-blue-500/10 group-hover:scale-110 transition-transform">1</div>
                 <div>
                   <h4 className="font-black text-xl text-gray-100 tracking-tight">The Archive Source</h4>
-                  <p className="text-gray-500 text-sm mt-2 leading-relaxed">Download your data from X Settings. Navigate to the extracted folder and upload <code className="bg-white/5 px-2 py-0.5 rounded text-blue-400 font-mono border border-white/5">data/tweets.js</code>. This ensures we see everything, including "hidden" or old posts.</p>
+                  <p className="text-gray-500 text-sm mt-2 leading-relaxed">Download your data from X Settings. Upload the archive <code className="bg-white/5 px-2 py-0.5 rounded text-blue-400 font-mono border border-white/5">.zip</code> as-is, or its extracted folder. Every tweet part listed in the manifest is merged, so we see everything, including "hidden" or old posts.</p>
                 </div>
               </div>
               
@@ -648,7 +2089,7 @@ Proceed?`);
                 <div className="bg-blue-600/10 border border-blue-500/30 text-blue-400 h-14 w-14 rounded-3xl flex items-center justify-center flex-shrink-0 font-black text-xl shadow-lg shadow-blue-500/10 group-hover:scale-110 transition-transform">3</div>
                 <div>
                   <h4 className="font-black text-xl text-gray-100 tracking-tight">Rate-Limited Deletion Engine</h4>
-                  <p className="text-gray-500 text-sm mt-2 leading-relaxed">X (Twitter) aggressively rate-limits third-party deletions. Our engine processes <span className="text-blue-400 font-bold">1 post every 6 seconds</span> (max 10/minute) to keep your account safe from shadowbanning or lockout.</p>
+                  <p className="text-gray-500 text-sm mt-2 leading-relaxed">X (Twitter) aggressively rate-limits third-party deletions. Our engine paces requests with a <span className="text-blue-400 font-bold">token bucket</span> tuned by your chosen profile, follows the budget X reports in its rate-limit headers, and backs off with jitter on errors to keep your account safe from shadowbanning or lockout.</p>
                 </div>
               </div>
 
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { TrendingUp, ChevronDown, ChevronRight } from 'lucide-react';
+import { ArchiveAnalytics, PostType, TermCount, EngagementBucket } from '../types';
+
+interface AnalyticsDashboardProps {
+  analytics: ArchiveAnalytics;
+  // Zone the months and the heatmap were computed in.
+  timeZone: string;
+  disabled: boolean;
+  // Narrows the date filter to the month, and the post types to `type` when a segment was clicked.
+  onSelectMonth: (month: string, type?: PostType) => void;
+  // Adds a term to the query box.
+  onAddQuery: (query: string) => void;
+}
+
+// Likes are not part of the analytics, so they have no colour.
+const TYPE_COLORS: Record<Exclude<PostType, 'like'>, string> = {
+  tweet: 'bg-blue-500',
+  reply: 'bg-purple-500',
+  'self-thread': 'bg-indigo-500',
+  quote: 'bg-teal-500',
+  repost: 'bg-orange-500'
+};
+
+const STACK_ORDER = Object.keys(TYPE_COLORS) as Exclude<PostType, 'like'>[];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const TermList: React.FC<{ title: string; terms: TermCount[]; prefix?: string; disabled: boolean; onAdd: (query: string) => void }> = ({
+  title, terms, prefix = '', disabled, onAdd
+}) => (
+  <div>
+    <p className="text-[10px] text-gray-500 uppercase font-black tracking-widest mb-2">{title}</p>
+    {terms.length === 0 && <p className="text-xs text-gray-600">None</p>}
+    <div className="flex flex-wrap gap-1.5">
+      {terms.map(term => (
+        <button
+          key={term.term}
+          onClick={() => onAdd(term.query)}
+          disabled={disabled}
+          title={`Add "${term.query}" to the query`}
+          className="flex items-center gap-1.5 text-[11px] font-bold text-gray-300 bg-white/5 border border-white/5 px-2 py-1 rounded-md hover:border-green-500/40 hover:text-white disabled:opacity-40"
+        >
+          {prefix}{term.term}
+          <span className="text-gray-500 tabular-nums">{term.count}</span>
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+const Histogram: React.FC<{ title: string; buckets: EngagementBucket[]; metric: 'likes' | 'reposts'; disabled: boolean; onAdd: (query: string) => void }> = ({
+  title, buckets, metric, disabled, onAdd
+}) => {
+  const max = Math.max(1, ...buckets.map(b => b[metric]));
+  return (
+    <div>
+      <p className="text-[10px] text-gray-500 uppercase font-black tracking-widest mb-2">{title}</p>
+      <div className="space-y-1">
+        {buckets.map(bucket => (
+          <button
+            key={bucket.label}
+            onClick={() => onAdd(metric === 'likes' ? bucket.likesQuery : bucket.repostsQuery)}
+            disabled={disabled}
+            className="w-full flex items-center gap-2 text-[10px] font-bold text-gray-400 group disabled:opacity-40"
+          >
+            <span className="w-14 text-right tabular-nums">{bucket.label}</span>
+            <span className="flex-1 h-3 bg-gray-900 rounded-sm overflow-hidden">
+              <span className="block h-full bg-green-500/60 group-hover:bg-green-400" style={{ width: `${(bucket[metric] / max) * 100}%` }} />
+            </span>
+            <span className="w-12 text-left tabular-nums">{bucket[metric]}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ analytics, timeZone, disabled, onSelectMonth, onAddQuery }) => {
+  const [open, setOpen] = useState(false);
+  const maxMonth = Math.max(1, ...analytics.months.map(m => m.total));
+  const maxCell = Math.max(1, ...analytics.heatmap.flat());
+
+  return (
+    <section className="glass-panel p-6 rounded-2xl">
+      <button onClick={() => setOpen(!open)} className="w-full flex justify-between items-center">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <TrendingUp size={20} className="text-green-400" />
+          Archive Analytics
+        </h2>
+        <span className="flex items-center gap-2 text-xs text-gray-500 font-bold">
+          Click a bar or term to filter
+          {open ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+        </span>
+      </button>
+
+      {open && (
+        <div className="mt-6 space-y-8">
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <p className="text-[10px] text-gray-500 uppercase font-black tracking-widest">Posting volume per month</p>
+              <div className="flex gap-3">
+                {STACK_ORDER.map(type => (
+                  <span key={type} className="flex items-center gap-1 text-[10px] text-gray-400 font-bold">
+                    <span className={`h-2 w-2 rounded-sm ${TYPE_COLORS[type]}`} /> {type}
+                  </span>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-end gap-px h-32">
+              {analytics.months.map(month => (
+                <div
+                  key={month.month}
+                  onClick={() => !disabled && onSelectMonth(month.month)}
+                  title={`${month.month}: ${month.total} posts`}
+                  className={`flex-1 min-w-[2px] h-full flex flex-col-reverse ${disabled ? '' : 'cursor-pointer hover:bg-white/5'}`}
+                >
+                  {STACK_ORDER.filter(type => month.counts[type]).map(type => (
+                    <div
+                      key={type}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        if (!disabled) onSelectMonth(month.month, type);
+                      }}
+                      title={`${month.month}: ${month.counts[type]} ${type}`}
+                      className={`${TYPE_COLORS[type]} opacity-80 hover:opacity-100`}
+                      style={{ height: `${((month.counts[type] ?? 0) / maxMonth) * 100}%` }}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-px mt-1">
+              {analytics.months.map(month => (
+                <div key={month.month} className="flex-1 min-w-[2px] text-[9px] text-gray-600 font-bold overflow-visible whitespace-nowrap">
+                  {month.month.endsWith('-01') ? month.month.slice(0, 4) : ''}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <Histogram title="Posts by likes" buckets={analytics.engagement} metric="likes" disabled={disabled} onAdd={onAddQuery} />
+            <Histogram title="Posts by reposts" buckets={analytics.engagement} metric="reposts" disabled={disabled} onAdd={onAddQuery} />
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <TermList title="Top hashtags" terms={analytics.hashtags} prefix="#" disabled={disabled} onAdd={onAddQuery} />
+            <TermList title="Top mentions" terms={analytics.mentions} prefix="@" disabled={disabled} onAdd={onAddQuery} />
+            <TermList title="Top domains" terms={analytics.domains} disabled={disabled} onAdd={onAddQuery} />
+            <TermList title="Most used words" terms={analytics.words} disabled={disabled} onAdd={onAddQuery} />
+          </div>
+
+          <div>
+            <p className="text-[10px] text-gray-500 uppercase font-black tracking-widest mb-2">Posting hour by weekday ({timeZone})</p>
+            <div className="space-y-px">
+              {analytics.heatmap.map((hours, day) => (
+                <div key={day} className="flex items-center gap-px">
+                  <span className="w-8 text-[9px] text-gray-500 font-bold">{WEEKDAYS[day]}</span>
+                  {hours.map((value, hour) => (
+                    <div
+                      key={hour}
+                      title={`${WEEKDAYS[day]} ${String(hour).padStart(2, '0')}:00 – ${value} posts`}
+                      className="flex-1 h-4 rounded-[2px] bg-green-500"
+                      style={{ opacity: value === 0 ? 0.05 : 0.15 + (value / maxCell) * 0.85 }}
+                    />
+                  ))}
+                </div>
+              ))}
+              <div className="flex gap-px pl-8">
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <span key={hour} className="flex-1 text-[9px] text-gray-600 font-bold text-center">{hour % 6 === 0 ? hour : ''}</span>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default AnalyticsDashboard;
@@ -0,0 +1,154 @@
+import React from 'react';
+import { Cpu, AlertTriangle, DatabaseZap } from 'lucide-react';
+import { AuditSettings } from '../types';
+import { AUDIT_PROVIDERS } from '../services/auditProvider';
+
+interface AuditSettingsPanelProps {
+  settings: AuditSettings;
+  disabled: boolean;
+  error: string | null;
+  onChange: (settings: AuditSettings) => void;
+  onClearCache: () => void;
+}
+
+const inputClass = "mt-1 w-full bg-gray-900 border border-gray-800 rounded-lg p-2 text-sm text-gray-200 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50";
+const labelClass = "block text-[10px] text-gray-500 font-bold uppercase tracking-wider";
+
+const AuditSettingsPanel: React.FC<AuditSettingsPanelProps> = ({ settings, disabled, error, onChange, onClearCache }) => {
+  const provider = AUDIT_PROVIDERS.find(p => p.kind === settings.provider);
+
+  return (
+    <section className="glass-panel p-6 rounded-2xl">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <Cpu size={20} className="text-cyan-400" />
+          AI Audit
+        </h2>
+        <button onClick={onClearCache} disabled={disabled} title="Clear cached audit results" className="p-2 rounded-lg text-gray-500 hover:text-white hover:bg-white/5 disabled:opacity-30">
+          <DatabaseZap size={14} />
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <div className="grid grid-cols-3 gap-2">
+            {AUDIT_PROVIDERS.map(({ kind, label }) => (
+              <button
+                key={kind}
+                onClick={() => onChange({ ...settings, provider: kind })}
+                disabled={disabled}
+                className={`py-2 rounded-lg border text-xs font-bold transition-all disabled:opacity-50 ${
+                  settings.provider === kind
+                  ? 'bg-blue-600/20 border-blue-500/50 text-blue-100'
+                  : 'bg-gray-900 border-gray-800 text-gray-500'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {provider && <p className="text-[10px] text-gray-600 mt-2 leading-tight">{provider.description}</p>}
+        </div>
+
+        {settings.provider === 'gemini' && (
+          <div className="grid grid-cols-2 gap-2">
+            <label className={labelClass}>
+              API key
+              <input
+                type="password"
+                autoComplete="off"
+                placeholder="Required"
+                disabled={disabled}
+                className={inputClass}
+                value={settings.gemini.apiKey}
+                onChange={(e) => onChange({ ...settings, gemini: { ...settings.gemini, apiKey: e.target.value } })}
+              />
+            </label>
+            <label className={labelClass}>
+              Model
+              <input
+                type="text"
+                disabled={disabled}
+                className={inputClass}
+                value={settings.gemini.model}
+                onChange={(e) => onChange({ ...settings, gemini: { ...settings.gemini, model: e.target.value } })}
+              />
+            </label>
+          </div>
+        )}
+
+        {settings.provider === 'openai-compatible' && (
+          <div className="space-y-2">
+            <label className={labelClass}>
+              Base URL
+              <input
+                type="url"
+                disabled={disabled}
+                className={inputClass}
+                value={settings.openai.baseUrl}
+                onChange={(e) => onChange({ ...settings, openai: { ...settings.openai, baseUrl: e.target.value } })}
+              />
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              <label className={labelClass}>
+                Model
+                <input
+                  type="text"
+                  disabled={disabled}
+                  className={inputClass}
+                  value={settings.openai.model}
+                  onChange={(e) => onChange({ ...settings, openai: { ...settings.openai, model: e.target.value } })}
+                />
+              </label>
+              <label className={labelClass}>
+                API key
+                <input
+                  type="password"
+                  autoComplete="off"
+                  placeholder="Optional"
+                  disabled={disabled}
+                  className={inputClass}
+                  value={settings.openai.apiKey}
+                  onChange={(e) => onChange({ ...settings, openai: { ...settings.openai, apiKey: e.target.value } })}
+                />
+              </label>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <label className={labelClass}>
+            Batch size
+            <select
+              value={settings.batchSize}
+              onChange={(e) => onChange({ ...settings, batchSize: Number(e.target.value) })}
+              disabled={disabled}
+              className={inputClass}
+            >
+              {[10, 25, 50, 100].map(n => <option key={n} value={n}>{n} posts</option>)}
+            </select>
+          </label>
+          <label className={labelClass}>
+            Concurrency
+            <select
+              value={settings.concurrency}
+              onChange={(e) => onChange({ ...settings, concurrency: Number(e.target.value) })}
+              disabled={disabled}
+              className={inputClass}
+            >
+              {[1, 2, 4, 8].map(n => <option key={n} value={n}>{n} at a time</option>)}
+            </select>
+          </label>
+        </div>
+
+        {error && (
+          <p className="text-[11px] text-red-400 flex items-start gap-1">
+            <AlertTriangle size={12} className="mt-0.5 flex-shrink-0" /> {error}
+          </p>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default AuditSettingsPanel;
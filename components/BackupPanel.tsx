@@ -0,0 +1,43 @@
+import React from 'react';
+import { Archive, Download, Trash2 } from 'lucide-react';
+
+interface BackupPanelProps {
+  count: number;
+  disabled: boolean;
+  onDownload: () => void;
+  onClear: () => void;
+}
+
+const BackupPanel: React.FC<BackupPanelProps> = ({ count, disabled, onDownload, onClear }) => (
+  <section className="glass-panel p-6 rounded-2xl">
+    <div className="flex justify-between items-center mb-3">
+      <h2 className="text-xl font-semibold flex items-center gap-2">
+        <Archive size={20} className="text-amber-400" />
+        Backups
+      </h2>
+      <span className="text-sm font-bold tabular-nums text-amber-300">{count}</span>
+    </div>
+    <p className="text-[11px] text-gray-500 leading-relaxed mb-4">
+      Every post is saved here before it is deleted. The download is a <code className="text-gray-400">tweets.js</code> that can be imported again.
+    </p>
+    <div className="flex gap-2">
+      <button
+        onClick={onDownload}
+        disabled={disabled}
+        className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg border border-gray-700 text-xs font-bold text-gray-300 hover:bg-gray-800 disabled:opacity-40"
+      >
+        <Download size={14} /> Download tweets.js
+      </button>
+      <button
+        onClick={onClear}
+        disabled={disabled}
+        title="Delete all local backups"
+        className="p-2 rounded-lg border border-gray-800 text-gray-500 hover:text-red-400 hover:border-red-900/50 disabled:opacity-40"
+      >
+        <Trash2 size={14} />
+      </button>
+    </div>
+  </section>
+);
+
+export default BackupPanel;
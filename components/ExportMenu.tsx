@@ -0,0 +1,26 @@
+import React from 'react';
+import { FileDown } from 'lucide-react';
+import { ReportFormat, REPORT_FORMATS } from '../services/reportExport';
+
+interface ExportMenuProps {
+  disabled: boolean;
+  onExport: (format: ReportFormat) => void;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ disabled, onExport }) => (
+  <div className="flex items-center rounded-full border border-gray-700 overflow-hidden" title="Export the matching posts with their audit results for review">
+    <span className="pl-3 pr-1 text-gray-500"><FileDown size={14} /></span>
+    {(Object.keys(REPORT_FORMATS) as ReportFormat[]).map(format => (
+      <button
+        key={format}
+        onClick={() => onExport(format)}
+        disabled={disabled}
+        className="px-2.5 py-2 text-[11px] font-bold text-gray-400 hover:text-white hover:bg-gray-800 disabled:opacity-40 transition-colors"
+      >
+        {REPORT_FORMATS[format].label}
+      </button>
+    ))}
+  </div>
+);
+
+export default ExportMenu;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { FileText, X, AlertTriangle } from 'lucide-react';
+import { ImportFileReport } from '../types';
+
+interface ImportReportProps {
+  report: ImportFileReport[];
+  onDismiss: () => void;
+}
+
+const ImportReport: React.FC<ImportReportProps> = ({ report, onDismiss }) => (
+  <section className="glass-panel p-6 rounded-2xl">
+    <div className="flex justify-between items-center mb-4">
+      <h2 className="text-xl font-semibold flex items-center gap-2">
+        <FileText size={20} className="text-purple-400" />
+        Import Report
+      </h2>
+      <button onClick={onDismiss} className="text-gray-600 hover:text-white"><X size={16} /></button>
+    </div>
+    <div className="space-y-2">
+      {report.map(entry => (
+        <div key={entry.fileName} className="bg-gray-900 p-3 rounded-lg border border-gray-800/30 text-xs">
+          <div className="flex justify-between items-center gap-2">
+            <span className="font-mono text-gray-300 truncate" title={entry.fileName}>{entry.fileName.split('/').pop()}</span>
+            <span className="text-[10px] uppercase font-bold text-gray-500 flex-shrink-0">{entry.kind}</span>
+          </div>
+          {entry.error ? (
+            <p className="text-red-400 mt-1 flex items-center gap-1"><AlertTriangle size={12} /> {entry.error}</p>
+          ) : (
+            <p className="text-gray-500 mt-1">
+              {entry.records} records • <span className="text-green-400">{entry.imported} imported</span>
+              {entry.duplicates > 0 && <> • <span className="text-yellow-500">{entry.duplicates} duplicates</span></>}
+            </p>
+          )}
+          {entry.note && <p className="text-gray-600 mt-1 italic">{entry.note}</p>}
+        </div>
+      ))}
+    </div>
+  </section>
+);
+
+export default ImportReport;
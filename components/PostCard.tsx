@@ -0,0 +1,232 @@
+import React from 'react';
+import { ShieldAlert, ShieldCheck, Shield, Fingerprint, Hash, Image, Link2, AtSign, Quote, Globe, Smartphone, Timer, MessagesSquare, ChevronDown, ChevronRight, ListPlus, Trash2 } from 'lucide-react';
+import { XPost, AuditResult, PostType, FlaggedSpan } from '../types';
+
+const TYPE_BADGE: Record<PostType, string> = {
+  tweet: 'bg-blue-500/10 border-blue-500/30 text-blue-400',
+  reply: 'bg-purple-500/10 border-purple-500/30 text-purple-400',
+  'self-thread': 'bg-indigo-500/10 border-indigo-500/30 text-indigo-400',
+  quote: 'bg-teal-500/10 border-teal-500/30 text-teal-400',
+  repost: 'bg-orange-500/10 border-orange-500/30 text-orange-400',
+  like: 'bg-rose-500/10 border-rose-500/30 text-rose-400'
+};
+
+interface PostCardProps {
+  post: XPost;
+  audit?: AuditResult;
+  renderText: (text: string, flagged?: FlaggedSpan[]) => React.ReactNode;
+  matchedRule?: string;
+  auditSource?: 'cached' | 'fresh';
+  // Findings from the local privacy scan, kept apart from the AI audit.
+  privacy?: AuditResult;
+  selected?: boolean;
+  kept?: boolean;
+  onToggleSelected?: () => void;
+  onToggleKept?: () => void;
+  // Set on the opening post of a thread.
+  thread?: ThreadControls;
+  // Nesting level of a reply inside an expanded thread.
+  depth?: number;
+  // Shown as thread context only; the filters did not match it.
+  outsideFilter?: boolean;
+  // Zone the timestamp is shown in; the browser's own when unset.
+  timeZone?: string;
+}
+
+interface ThreadControls {
+  posts: number;
+  matching: number;
+  expanded: boolean;
+  onToggle: () => void;
+  onIncludeRest: () => void;
+  onPurge?: () => void;
+}
+
+const Badge: React.FC<{ icon: React.ReactNode; children: React.ReactNode; title?: string }> = ({ icon, children, title }) => (
+  <span title={title} className="flex items-center gap-1 text-[10px] text-gray-400 font-bold bg-white/5 px-2 py-1 rounded-md border border-white/5">
+    {icon}
+    {children}
+  </span>
+);
+
+const PostCard: React.FC<PostCardProps> = ({
+  post, audit, renderText, matchedRule, auditSource, privacy, selected, kept, onToggleSelected, onToggleKept, thread, depth = 0, outsideFilter, timeZone
+}) => {
+  const created = new Date(post.created_at);
+  const photos = post.media.filter(m => m.type === 'photo').length;
+  const videos = post.media.length - photos;
+
+  return (
+    <div className={`glass-panel p-6 rounded-[1.5rem] hover:border-gray-500/50 transition-all group relative overflow-hidden hover:shadow-xl hover:shadow-blue-500/5 ${
+      kept ? 'border-green-500/30' : 'border-transparent'
+    } ${(onToggleSelected && !selected) || outsideFilter ? 'opacity-60' : ''}`} style={depth > 0 ? { marginLeft: `${Math.min(depth, 6) * 1.5}rem` } : undefined}>
+      <div className="flex justify-between items-start mb-5">
+        <div className="flex gap-3 items-center flex-wrap">
+          {onToggleSelected && (
+            <input
+              type="checkbox"
+              checked={!!selected}
+              disabled={kept}
+              onChange={onToggleSelected}
+              title={kept ? 'On the keep list; never purged' : 'Include in the purge'}
+              className="h-4 w-4 accent-red-500 cursor-pointer disabled:cursor-not-allowed"
+            />
+          )}
+          <span className={`text-[10px] uppercase font-black tracking-widest px-3 py-1 rounded-lg border shadow-sm ${TYPE_BADGE[post.type]}`}>
+            {post.type}
+          </span>
+          <span
+            title={`${created.toLocaleString(undefined, { timeZone, timeZoneName: 'short' })}${post.type === 'like' ? ' – when the liked post was written; the archive does not record when it was liked' : ''}`}
+            className="text-[10px] text-gray-500 font-bold tabular-nums bg-white/5 px-2 py-1 rounded-md"
+          >
+            {created.toLocaleDateString(undefined, { timeZone })} • {created.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone })}
+          </span>
+          {post.type === 'reply' && post.reply_to_screen_name && (
+            <span className="text-[10px] text-purple-300/70 font-bold">to @{post.reply_to_screen_name}</span>
+          )}
+          {outsideFilter && (
+            <span className="text-[10px] text-gray-500 font-bold border border-dashed border-gray-700 px-2 py-1 rounded-md">Not matched by filters</span>
+          )}
+          {matchedRule && (
+            <span className="flex items-center gap-1 text-[10px] text-orange-300 font-bold bg-orange-500/10 border border-orange-500/20 px-2 py-1 rounded-md">
+              <Timer size={10} /> {matchedRule}
+            </span>
+          )}
+          {onToggleKept && (
+            <button
+              onClick={onToggleKept}
+              title={kept ? 'Remove from the keep list' : 'Add to the keep list so it is never purged'}
+              className={`flex items-center gap-1 text-[10px] font-bold px-2 py-1 rounded-md border transition-colors ${
+                kept ? 'text-green-300 bg-green-500/10 border-green-500/30' : 'text-gray-600 border-transparent hover:text-gray-300 hover:border-gray-700'
+              }`}
+            >
+              {kept ? <ShieldCheck size={10} /> : <Shield size={10} />} {kept ? 'Kept' : 'Keep'}
+            </button>
+          )}
+        </div>
+        {audit && (
+          <div className="flex items-center gap-2">
+             <span className={`text-[10px] uppercase font-black px-3 py-1 rounded-full border shadow-lg ${
+              audit.riskLevel === 'High' ? 'bg-red-600 text-white border-red-500 shadow-red-900/20' :
+              audit.riskLevel === 'Medium' ? 'bg-yellow-500 text-black border-yellow-400 shadow-yellow-900/10' :
+              'bg-green-600 text-white border-green-500 shadow-green-900/10'
+            }`}>
+              {audit.riskLevel} Risk
+            </span>
+            {auditSource && (
+              <span className={`text-[10px] uppercase font-black tracking-wider px-2 py-0.5 rounded-md border ${
+                auditSource === 'cached' ? 'text-gray-400 border-gray-700' : 'text-cyan-300 border-cyan-500/30 bg-cyan-500/10'
+              }`} title={auditSource === 'cached' ? 'Reused from an earlier audit of the same text' : 'Audited in this session'}>
+                {auditSource}
+              </span>
+            )}
+            <span className="text-[10px] text-gray-500 font-bold tabular-nums" title="Audit confidence">
+              {Math.round(audit.confidence * 100)}%
+            </span>
+          </div>
+        )}
+      </div>
+
+      <p className="text-gray-100 text-base leading-[1.6] font-medium">
+        {renderText(post.full_text, [...(audit?.spans || []), ...(privacy?.spans || [])])}
+      </p>
+
+      {(post.media.length > 0 || post.urls.length > 0 || post.hashtags.length > 0 || post.mentions.length > 0 || post.quoted_status_id || post.lang || post.source) && (
+        <div className="mt-4 flex flex-wrap gap-2">
+          {photos > 0 && <Badge icon={<Image size={10} />}>{photos} photo{photos > 1 ? 's' : ''}</Badge>}
+          {videos > 0 && <Badge icon={<Image size={10} />}>{videos} video{videos > 1 ? 's' : ''}</Badge>}
+          {post.quoted_status_id && <Badge icon={<Quote size={10} />} title={`Quotes ${post.quoted_status_id}`}>Quote</Badge>}
+          {post.urls.filter(u => !post.quoted_status_id || !u.expanded_url.includes(post.quoted_status_id)).map(u => (
+            <Badge key={u.url} icon={<Link2 size={10} />} title={u.expanded_url}>{u.display_url}</Badge>
+          ))}
+          {post.hashtags.map(tag => <Badge key={tag} icon={<Hash size={10} />}>{tag}</Badge>)}
+          {post.mentions.map(m => <Badge key={m.id || m.screen_name} icon={<AtSign size={10} />}>{m.screen_name}</Badge>)}
+          {post.lang && <Badge icon={<Globe size={10} />}>{post.lang}</Badge>}
+          {post.source && <Badge icon={<Smartphone size={10} />}>{post.source}</Badge>}
+        </div>
+      )}
+
+      {privacy && (
+        <div className="mt-4 px-4 py-3 bg-pink-500/5 rounded-2xl border border-pink-500/20 flex items-start gap-3">
+          <Fingerprint size={16} className="text-pink-400 mt-0.5 flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="text-[10px] text-pink-400 font-black uppercase tracking-widest">Privacy Scan • {privacy.riskLevel} Risk</p>
+            <div className="mt-1.5 flex flex-wrap gap-1.5">
+              {privacy.spans.map(span => (
+                <span key={span.start} title={span.text} className="text-[10px] font-bold text-pink-200 bg-pink-500/10 border border-pink-500/20 px-2 py-0.5 rounded-md truncate max-w-[16rem]">
+                  {span.label}
+                </span>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {audit && (
+        <div className="mt-6 p-4 bg-blue-500/5 rounded-2xl border border-blue-500/10 flex items-start gap-3 group-hover:bg-blue-500/10 transition-colors">
+          <ShieldAlert size={16} className="text-blue-400 mt-1 flex-shrink-0 animate-pulse" />
+          <div>
+            <p className="text-[10px] text-blue-400 font-black uppercase tracking-widest">AI Audit Report</p>
+            <p className="text-sm text-gray-300 mt-1.5 leading-relaxed font-medium">{audit.reason}</p>
+            {audit.categories.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-1.5">
+                {audit.categories.map(category => (
+                  <span key={category} className="text-[10px] font-bold uppercase tracking-wider text-red-300 bg-red-500/10 border border-red-500/20 px-2 py-0.5 rounded-md">
+                    {category}
+                  </span>
+                ))}
+                <span className="text-[10px] font-bold uppercase tracking-wider text-gray-500 px-2 py-0.5">{audit.sentiment}</span>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {thread && (
+        <div className="mt-4 flex flex-wrap items-center gap-2 text-[10px] font-bold">
+          <button
+            onClick={thread.onToggle}
+            className="flex items-center gap-1.5 px-2.5 py-1 rounded-md border border-indigo-500/30 bg-indigo-500/10 text-indigo-300 hover:text-white"
+          >
+            {thread.expanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+            <MessagesSquare size={12} /> Thread of {thread.posts} • {thread.matching} matching
+          </button>
+          {thread.matching < thread.posts && (
+            <button
+              onClick={thread.onIncludeRest}
+              title="Add the posts of this thread the filters did not match"
+              className="flex items-center gap-1.5 px-2.5 py-1 rounded-md border border-gray-700 text-gray-400 hover:text-white"
+            >
+              <ListPlus size={12} /> Include rest (+{thread.posts - thread.matching})
+            </button>
+          )}
+          {thread.onPurge && (
+            <button
+              onClick={thread.onPurge}
+              title="Delete every post of this thread, replies first"
+              className="flex items-center gap-1.5 px-2.5 py-1 rounded-md border border-red-900/50 text-red-400 hover:bg-red-500/10"
+            >
+              <Trash2 size={12} /> Purge thread
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="mt-6 pt-5 border-t border-white/5 flex gap-8 text-gray-600 text-[10px] font-black uppercase tracking-widest">
+        <div className="flex items-center gap-2 group-hover:text-pink-500/50 transition-colors">
+          <div className="h-2 w-2 rounded-full bg-pink-500/20" />
+          {post.favorite_count} Favorites
+        </div>
+        <div className="flex items-center gap-2 group-hover:text-green-500/50 transition-colors">
+          <div className="h-2 w-2 rounded-full bg-green-500/20" />
+          {post.retweet_count} Reposts
+        </div>
+        <div className="ml-auto text-gray-700 group-hover:text-gray-500 transition-colors flex items-center gap-2">
+           <Hash size={12} /> ID {post.id}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PostCard;
@@ -0,0 +1,173 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { ArrowDownUp } from 'lucide-react';
+import { XPost, FeedSort } from '../types';
+import { FEED_SORTS } from '../services/feed';
+
+interface PostFeedProps {
+  posts: XPost[];
+  sort: FeedSort;
+  onSortChange: (sort: FeedSort) => void;
+  renderPost: (post: XPost) => React.ReactNode;
+}
+
+// Cards are laid out from measured heights; unmeasured ones use this estimate until rendered.
+const ESTIMATED_HEIGHT = 260;
+const GAP = 16;
+// How far beyond the visible area cards are kept rendered, in pixels.
+const OVERSCAN = 1200;
+
+// Index of the first card whose bottom edge is below `top`.
+function firstVisible(offsets: Float64Array, top: number): number {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] <= top) low = mid + 1;
+    else high = mid;
+  }
+  return Math.max(0, low);
+}
+
+// Windowed feed: only the cards near the viewport are mounted. The first visible card
+// is used as a scroll anchor, so re-measured heights and re-sorts while an audit streams
+// in keep the reader in place instead of jumping.
+const PostFeed: React.FC<PostFeedProps> = ({ posts, sort, onSortChange, renderPost }) => {
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const heightsRef = useRef(new Map<string, number>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const observedRef = useRef(new Set<Element>());
+  const anchorRef = useRef<{ id: string; delta: number } | null>(null);
+  const [measuredVersion, setMeasuredVersion] = useState(0);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(800);
+
+  const layout = useMemo(() => {
+    const offsets = new Float64Array(posts.length + 1);
+    const indexById = new Map<string, number>();
+    posts.forEach((post, i) => {
+      indexById.set(post.id, i);
+      offsets[i + 1] = offsets[i] + (heightsRef.current.get(post.id) ?? ESTIMATED_HEIGHT) + GAP;
+    });
+    return { offsets, indexById };
+  }, [posts, measuredVersion]);
+  const layoutRef = useRef(layout);
+  layoutRef.current = layout;
+
+  const rememberAnchor = (top: number) => {
+    const { offsets } = layoutRef.current;
+    if (posts.length === 0) {
+      anchorRef.current = null;
+      return;
+    }
+    const index = firstVisible(offsets, top);
+    anchorRef.current = { id: posts[index].id, delta: top - offsets[index] };
+  };
+
+  const handleScroll = () => {
+    const top = scrollRef.current?.scrollTop ?? 0;
+    rememberAnchor(top);
+    setScrollTop(top);
+  };
+
+  // Re-pin the anchor card after heights or order change.
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    const anchor = anchorRef.current;
+    if (!el || !anchor) return;
+    const index = layout.indexById.get(anchor.id);
+    if (index === undefined) return;
+    const target = Math.max(0, layout.offsets[index] + anchor.delta);
+    if (Math.abs(el.scrollTop - target) > 1) {
+      el.scrollTop = target;
+      setScrollTop(target);
+    }
+  }, [layout]);
+
+  // A new sort starts from the top; an audit re-sorting the same order does not.
+  useLayoutEffect(() => {
+    anchorRef.current = null;
+    if (scrollRef.current) scrollRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, [sort]);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const viewportObserver = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+    viewportObserver.observe(el);
+    return () => {
+      viewportObserver.disconnect();
+      observerRef.current?.disconnect();
+      observerRef.current = null;
+    };
+  }, []);
+
+  const observeCard = useCallback((node: HTMLDivElement | null) => {
+    if (!node) return;
+    if (!observerRef.current) {
+      observerRef.current = new ResizeObserver(entries => {
+        let changed = false;
+        entries.forEach(entry => {
+          const id = (entry.target as HTMLElement).dataset.postId;
+          const height = (entry.target as HTMLElement).offsetHeight;
+          if (id && height > 0 && heightsRef.current.get(id) !== height) {
+            heightsRef.current.set(id, height);
+            changed = true;
+          }
+        });
+        if (changed) setMeasuredVersion(v => v + 1);
+      });
+    }
+    observerRef.current.observe(node);
+    observedRef.current.add(node);
+  }, []);
+
+  // Stop watching cards that scrolled out of the window.
+  useEffect(() => {
+    observedRef.current.forEach(node => {
+      if (node.isConnected) return;
+      observerRef.current?.unobserve(node);
+      observedRef.current.delete(node);
+    });
+  });
+
+  const { offsets } = layout;
+  const start = posts.length > 0 ? firstVisible(offsets, Math.max(0, scrollTop - OVERSCAN)) : 0;
+  let end = start;
+  while (end < posts.length && offsets[end] < scrollTop + viewportHeight + OVERSCAN) end++;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between px-1">
+        <span className="text-xs text-gray-500 font-bold tabular-nums">{posts.length.toLocaleString()} in feed</span>
+        <label className="flex items-center gap-2 text-xs text-gray-500 font-bold">
+          <ArrowDownUp size={12} /> Sort
+          <select
+            value={sort}
+            onChange={(e) => onSortChange(e.target.value as FeedSort)}
+            className="bg-gray-900 border border-gray-800 rounded-lg px-2 py-1.5 text-xs font-bold text-gray-300 focus:outline-none"
+          >
+            {FEED_SORTS.map(option => <option key={option.sort} value={option.sort}>{option.label}</option>)}
+          </select>
+        </label>
+      </div>
+      <div ref={scrollRef} onScroll={handleScroll} className="h-[calc(100vh-9rem)] overflow-y-auto pr-1">
+        <div className="relative" style={{ height: offsets[posts.length] }}>
+          {posts.slice(start, end).map((post, i) => (
+            <div
+              key={post.id}
+              ref={observeCard}
+              data-post-id={post.id}
+              className="absolute left-0 right-0"
+              style={{ top: offsets[start + i] }}
+            >
+              {renderPost(post)}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PostFeed;
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Bookmark, Download, Upload, Trash2, Save, AlertTriangle } from 'lucide-react';
+import { FilterPreset } from '../types';
+import { describeDateRange } from '../services/timeZone';
+
+interface PresetPanelProps {
+  presets: FilterPreset[];
+  disabled: boolean;
+  error: string | null;
+  notice: string | null;
+  onApply: (preset: FilterPreset) => void;
+  onSave: (name: string) => void;
+  onDelete: (preset: FilterPreset) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const PresetPanel: React.FC<PresetPanelProps> = ({ presets, disabled, error, notice, onApply, onSave, onDelete, onExport, onImport }) => {
+  const [name, setName] = useState('');
+
+  const save = () => {
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setName('');
+  };
+
+  return (
+    <section className="glass-panel p-6 rounded-2xl">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <Bookmark size={20} className="text-yellow-400" />
+          Presets
+        </h2>
+        <div className="flex gap-1">
+          <label title="Import presets from JSON" className="p-2 rounded-lg text-gray-500 hover:text-white hover:bg-white/5 cursor-pointer">
+            <Upload size={14} />
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImport(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <button onClick={onExport} disabled={presets.length === 0} title="Export presets as JSON" className="p-2 rounded-lg text-gray-500 hover:text-white hover:bg-white/5 disabled:opacity-30">
+            <Download size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-2 mb-3">
+        <input
+          type="text"
+          placeholder="Save current filters as..."
+          className="flex-1 min-w-0 bg-gray-900 border border-gray-800 rounded-lg p-2.5 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && save()}
+        />
+        <button onClick={save} disabled={!name.trim()} className="bg-gray-800 px-3 py-2 rounded-lg hover:bg-gray-700 disabled:opacity-50" title="Save preset">
+          <Save size={14} />
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-[11px] text-red-400 mb-3 flex items-start gap-1 break-words">
+          <AlertTriangle size={12} className="mt-0.5 flex-shrink-0" /> {error}
+        </p>
+      )}
+      {notice && !error && <p className="text-[11px] text-green-400 mb-3">{notice}</p>}
+
+      <div className="space-y-2">
+        {presets.length === 0 && <span className="text-[10px] text-gray-600 italic">No saved presets</span>}
+        {presets.map(preset => (
+          <div key={preset.id} className="flex items-center gap-2 bg-gray-900 rounded-lg border border-gray-800/30 pr-1">
+            <button
+              onClick={() => onApply(preset)}
+              disabled={disabled}
+              className="flex-1 text-left px-3 py-2 text-sm font-medium text-gray-300 hover:text-white disabled:opacity-50 truncate"
+              title={preset.filters.query || preset.name}
+            >
+              {preset.name}
+              <span className="block text-[10px] text-gray-600 font-normal">
+                {describeDateRange(preset.filters)} • {preset.options.deleterMode}
+              </span>
+            </button>
+            <button onClick={() => onDelete(preset)} className="p-1.5 text-gray-600 hover:text-red-400" title="Delete preset">
+              <Trash2 size={12} />
+            </button>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default PresetPanel;
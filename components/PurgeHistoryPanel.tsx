@@ -0,0 +1,48 @@
+import React from 'react';
+import { History, Trash2 } from 'lucide-react';
+import { PurgeRun } from '../types';
+
+interface PurgeHistoryPanelProps {
+  runs: PurgeRun[];
+  activeRunId: string | null;
+  disabled: boolean;
+  onOpen: (runId: string) => void;
+  onClear: () => void;
+}
+
+const PurgeHistoryPanel: React.FC<PurgeHistoryPanelProps> = ({ runs, activeRunId, disabled, onOpen, onClear }) => (
+  <section className="glass-panel p-6 rounded-2xl">
+    <div className="flex justify-between items-center mb-4">
+      <h2 className="text-xl font-semibold flex items-center gap-2">
+        <History size={20} className="text-indigo-400" />
+        Purge History
+      </h2>
+      <button onClick={onClear} disabled={disabled} title="Delete the purge journal" className="p-2 rounded-lg text-gray-500 hover:text-white hover:bg-white/5 disabled:opacity-30">
+        <Trash2 size={14} />
+      </button>
+    </div>
+    <ul className="space-y-1.5 max-h-64 overflow-y-auto">
+      {runs.map(run => (
+        <li key={run.id}>
+          <button
+            onClick={() => onOpen(run.id)}
+            disabled={disabled}
+            className={`w-full text-left px-3 py-2 rounded-lg border text-xs transition-all disabled:opacity-50 ${
+              run.id === activeRunId ? 'bg-indigo-600/20 border-indigo-500/40' : 'bg-gray-900 border-gray-800 hover:border-gray-600'
+            }`}
+          >
+            <div className="flex justify-between gap-2">
+              <span className="font-bold text-gray-300">{new Date(run.startedAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</span>
+              <span className="text-gray-500 tabular-nums">{run.total} posts</span>
+            </div>
+            <div className="text-[10px] text-gray-600 uppercase font-bold tracking-wider mt-0.5">
+              {run.deleterMode} • {run.endReason ?? 'interrupted'}{run.retryOf && ' • retry'}
+            </div>
+          </button>
+        </li>
+      ))}
+    </ul>
+  </section>
+);
+
+export default PurgeHistoryPanel;
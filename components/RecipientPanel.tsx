@@ -0,0 +1,122 @@
+import React, { useMemo, useState } from 'react';
+import { Users, Search, UserX } from 'lucide-react';
+import { ReplyRecipient, RecipientSort, RECIPIENT_SORTS, sortRecipients, searchRecipients } from '../services/recipients';
+
+interface RecipientPanelProps {
+  recipients: ReplyRecipient[];
+  // Keys of the recipients currently used as a filter.
+  selected: string[];
+  // Whether following.js was imported, so "not followed" is known.
+  followingKnown: boolean;
+  disabled: boolean;
+  onChange: (keys: string[]) => void;
+}
+
+const PAGE_SIZE = 50;
+
+const formatDate = (time: number) => new Date(time).toLocaleDateString(undefined, { year: 'numeric', month: 'short' });
+
+const RecipientPanel: React.FC<RecipientPanelProps> = ({ recipients, selected, followingKnown, disabled, onChange }) => {
+  const [search, setSearch] = useState('');
+  const [sort, setSort] = useState<RecipientSort>('replies');
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  const visible = useMemo(() => sortRecipients(searchRecipients(recipients, search), sort), [recipients, search, sort]);
+  const selectedSet = new Set(selected);
+  const notFollowed = recipients.filter(r => r.following === false);
+
+  const toggle = (key: string) => {
+    onChange(selectedSet.has(key) ? selected.filter(k => k !== key) : [...selected, key]);
+  };
+
+  return (
+    <section className="glass-panel p-6 rounded-2xl">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <Users size={20} className="text-purple-400" />
+          Reply Recipients
+        </h2>
+        <span className="text-xs text-gray-500 font-bold tabular-nums">{recipients.length} accounts</span>
+      </div>
+
+      <div className="flex gap-2 mb-3">
+        <div className="relative flex-1 min-w-0">
+          <Search size={12} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-600" />
+          <input
+            type="text"
+            placeholder="Search @name or id"
+            className="w-full bg-gray-900 border border-gray-800 rounded-lg py-2 pl-7 pr-2 text-xs focus:outline-none focus:ring-1 focus:ring-purple-500"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setLimit(PAGE_SIZE);
+            }}
+          />
+        </div>
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as RecipientSort)}
+          className="bg-gray-900 border border-gray-800 rounded-lg px-2 text-xs font-bold text-gray-400 focus:outline-none"
+        >
+          {RECIPIENT_SORTS.map(option => <option key={option.sort} value={option.sort}>{option.label}</option>)}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-3 text-[10px] font-bold uppercase tracking-wider">
+        {followingKnown && (
+          <button
+            onClick={() => onChange([...new Set([...selected, ...notFollowed.map(r => r.key)])])}
+            disabled={disabled || notFollowed.length === 0}
+            title="Filter to replies sent to accounts you no longer follow"
+            className="flex items-center gap-1 px-2 py-1 rounded-md border border-gray-800 text-gray-400 hover:text-white disabled:opacity-40"
+          >
+            <UserX size={10} /> Not followed ({notFollowed.length})
+          </button>
+        )}
+        {selected.length > 0 && (
+          <button
+            onClick={() => onChange([])}
+            disabled={disabled}
+            className="px-2 py-1 rounded-md border border-gray-800 text-gray-500 hover:text-white disabled:opacity-40"
+          >
+            Clear {selected.length} selected
+          </button>
+        )}
+      </div>
+
+      <ul className="max-h-72 overflow-y-auto space-y-1 pr-1">
+        {visible.slice(0, limit).map(recipient => (
+          <li key={recipient.key}>
+            <label className={`flex items-center gap-3 px-2 py-1.5 rounded-lg cursor-pointer hover:bg-white/5 ${selectedSet.has(recipient.key) ? 'bg-purple-500/10' : ''}`}>
+              <input
+                type="checkbox"
+                checked={selectedSet.has(recipient.key)}
+                disabled={disabled}
+                onChange={() => toggle(recipient.key)}
+                className="h-3.5 w-3.5 accent-purple-500"
+              />
+              <span className="flex-1 min-w-0">
+                <span className="block text-xs font-bold text-gray-200 truncate" title={recipient.userId ?? undefined}>
+                  {recipient.screenName ? `@${recipient.screenName}` : recipient.key}
+                  {recipient.following === false && <span className="ml-2 text-[9px] uppercase text-gray-500">not followed</span>}
+                </span>
+                <span className="block text-[10px] text-gray-500 tabular-nums">
+                  {formatDate(recipient.firstAt)}{recipient.lastAt !== recipient.firstAt && ` – ${formatDate(recipient.lastAt)}`}
+                </span>
+              </span>
+              <span className="text-xs font-bold tabular-nums text-purple-300">{recipient.replies}</span>
+            </label>
+          </li>
+        ))}
+        {visible.length === 0 && <li className="text-xs text-gray-600 px-2 py-1">No matching accounts</li>}
+      </ul>
+      {visible.length > limit && (
+        <button onClick={() => setLimit(limit + PAGE_SIZE)} className="mt-2 w-full text-[10px] font-bold uppercase tracking-wider text-gray-500 hover:text-white">
+          Show {Math.min(PAGE_SIZE, visible.length - limit)} more of {visible.length - limit}
+        </button>
+      )}
+    </section>
+  );
+};
+
+export default RecipientPanel;
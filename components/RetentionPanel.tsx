@@ -0,0 +1,121 @@
+import React from 'react';
+import { Timer, Plus, Trash2, Target, AlertTriangle } from 'lucide-react';
+import { RetentionRule, RetentionResult, RetentionAction } from '../types';
+import { ruleError } from '../services/retention';
+
+interface RetentionPanelProps {
+  rules: RetentionRule[];
+  result: RetentionResult | null;
+  active: boolean;
+  disabled: boolean;
+  onChange: (rules: RetentionRule[]) => void;
+  onToggleActive: () => void;
+}
+
+const RetentionPanel: React.FC<RetentionPanelProps> = ({ rules, result, active, disabled, onChange, onToggleActive }) => {
+  const update = (id: string, patch: Partial<RetentionRule>) =>
+    onChange(rules.map(r => (r.id === id ? { ...r, ...patch } : r)));
+
+  const addRule = () =>
+    onChange([...rules, { id: crypto.randomUUID(), action: 'delete', query: 'type:reply', olderThanDays: 90 }]);
+
+  return (
+    <section className="glass-panel p-6 rounded-2xl">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <Timer size={20} className="text-orange-400" />
+          Retention Policies
+        </h2>
+        <button onClick={addRule} disabled={disabled} title="Add rule" className="p-2 rounded-lg text-gray-500 hover:text-white hover:bg-white/5 disabled:opacity-30">
+          <Plus size={14} />
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        {rules.length === 0 && (
+          <p className="text-[10px] text-gray-600 italic">No rules. Add one such as "delete type:reply older than 90 days" or "keep likes:&gt;100".</p>
+        )}
+        {rules.map(rule => {
+          const error = ruleError(rule);
+          const count = result?.ruleCounts[rule.id];
+          return (
+            <div key={rule.id} className={`bg-gray-900 p-3 rounded-lg border ${error ? 'border-red-500/40' : 'border-gray-800/30'}`}>
+              <div className="flex items-center gap-2 mb-2">
+                {(['delete', 'keep'] as RetentionAction[]).map(action => (
+                  <button
+                    key={action}
+                    onClick={() => update(rule.id, { action })}
+                    disabled={disabled}
+                    className={`px-2 py-1 rounded-md border text-[10px] uppercase font-black tracking-wider disabled:opacity-50 ${
+                      rule.action === action
+                      ? action === 'delete' ? 'bg-red-600/20 border-red-500/50 text-red-200' : 'bg-green-600/20 border-green-500/50 text-green-200'
+                      : 'border-gray-800 text-gray-600'
+                    }`}
+                  >
+                    {action}
+                  </button>
+                ))}
+                <span className="ml-auto text-[10px] font-bold text-gray-500 tabular-nums">
+                  {count !== undefined && !result?.error && (rule.action === 'delete' ? `removes ${count}` : `protects ${count}`)}
+                </span>
+                <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} disabled={disabled} className="p-1 text-gray-600 hover:text-red-400 disabled:opacity-30" title="Remove rule">
+                  <Trash2 size={12} />
+                </button>
+              </div>
+              <input
+                type="text"
+                spellCheck={false}
+                placeholder="all posts"
+                disabled={disabled}
+                className="w-full bg-black/40 border border-gray-800 rounded-md p-2 text-xs font-mono focus:outline-none focus:ring-1 focus:ring-blue-500"
+                value={rule.query}
+                onChange={(e) => update(rule.id, { query: e.target.value })}
+              />
+              <label className="flex items-center gap-2 mt-2 text-[10px] text-gray-500 font-bold uppercase tracking-wider">
+                Older than
+                <input
+                  type="number"
+                  min={0}
+                  placeholder="any"
+                  disabled={disabled}
+                  className="w-16 bg-black/40 border border-gray-800 rounded-md p-1 text-xs text-gray-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  value={rule.olderThanDays ?? ''}
+                  onChange={(e) => update(rule.id, { olderThanDays: e.target.value === '' ? null : Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                />
+                days
+              </label>
+              {error && (
+                <p className="text-[10px] text-red-400 mt-2 flex items-start gap-1">
+                  <AlertTriangle size={10} className="mt-0.5 flex-shrink-0" />
+                  {error.message} at "{rule.query.slice(error.start, error.end) || 'end'}"
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {rules.length > 0 && (
+        <button
+          onClick={onToggleActive}
+          disabled={disabled || !!result?.error}
+          className={`mt-4 w-full flex items-center justify-center gap-2 py-2.5 rounded-xl text-xs font-bold transition-all border disabled:opacity-50 ${
+            active
+            ? 'bg-orange-500 text-white border-orange-400 shadow-lg shadow-orange-500/20'
+            : 'bg-gray-900 text-gray-400 border-gray-800 hover:border-gray-700'
+          }`}
+        >
+          <Target size={14} />
+          {active ? `Purging By Policy (${result?.plan.length ?? 0} posts)` : 'Use Policies as Purge Target'}
+        </button>
+      )}
+      {active && result && (
+        <p className="text-[10px] text-orange-300/80 text-center mt-2 leading-tight">
+          Evaluated as of {new Date(result.asOf).toLocaleString()}. Keep rules override delete rules; the first matching delete rule is credited.
+        </p>
+      )}
+    </section>
+  );
+};
+
+export default RetentionPanel;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { CheckCircle2, AlertTriangle, RotateCcw, X } from 'lucide-react';
+import { RunReport, RunReportItem } from '../types';
+import { statusUrl } from '../services/archiveImporter';
+
+interface RunReportPanelProps {
+  report: RunReport;
+  retryBlockedReason: string | null;
+  onRetryFailed: () => void;
+  onDismiss: () => void;
+}
+
+const GROUPS: { key: 'failed' | 'retried' | 'skipped' | 'succeeded'; label: string; tone: string; pick: (item: RunReportItem) => boolean }[] = [
+  { key: 'failed', label: 'Failed', tone: 'text-red-400', pick: item => item.result === 'failed' },
+  { key: 'retried', label: 'Retried', tone: 'text-yellow-500', pick: item => item.retried },
+  { key: 'skipped', label: 'Skipped (kept)', tone: 'text-green-300', pick: item => item.result === 'skipped' },
+  { key: 'succeeded', label: 'Succeeded', tone: 'text-green-400', pick: item => item.result === 'succeeded' }
+];
+
+const RunReportPanel: React.FC<RunReportPanelProps> = ({ report, retryBlockedReason, onRetryFailed, onDismiss }) => {
+  const { run, counts } = report;
+  const title = run.endReason === 'completed' ? 'Purge complete' : run.endReason === 'stopped' ? 'Purge stopped' : 'Purge interrupted';
+
+  return (
+    <section className="glass-panel p-6 rounded-2xl border-green-800/30">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <h3 className="text-xl font-black flex items-center gap-2">
+            {counts.failed > 0 ? <AlertTriangle size={20} className="text-yellow-500" /> : <CheckCircle2 size={20} className="text-green-500" />}
+            {title}
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">
+            {new Date(run.startedAt).toLocaleString()}
+            {run.endedAt && <> – {new Date(run.endedAt).toLocaleTimeString()}</>}
+            {' '}• {run.deleterMode} • {run.total} queued{run.retryOf && ' • retry of an earlier run'}
+          </p>
+        </div>
+        <button onClick={onDismiss} className="text-gray-600 hover:text-white"><X size={16} /></button>
+      </div>
+
+      <div className="grid grid-cols-5 gap-2 mt-5 text-center">
+        {([['succeeded', 'text-green-400'], ['skipped', 'text-green-300'], ['failed', 'text-red-400'], ['retried', 'text-yellow-500'], ['unfinished', 'text-gray-400']] as const).map(([key, tone]) => (
+          <div key={key} className="bg-gray-900 p-2 rounded-lg border border-gray-800/30">
+            <div className="text-[10px] text-gray-500 uppercase font-bold">{key}</div>
+            <div className={`font-black text-lg tabular-nums ${tone}`}>{counts[key]}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 space-y-2">
+        {GROUPS.map(group => {
+          const items = report.items.filter(group.pick);
+          if (items.length === 0) return null;
+          return (
+            <details key={group.key} open={group.key === 'failed'} className="bg-gray-900/50 rounded-lg border border-gray-800/50">
+              <summary className={`px-3 py-2 text-xs font-bold cursor-pointer ${group.tone}`}>{group.label} ({items.length})</summary>
+              <ul className="px-3 pb-3 space-y-1 max-h-60 overflow-y-auto text-[11px]">
+                {items.map(item => (
+                  <li key={item.postId} className="flex gap-3">
+                    <a href={statusUrl(item.postId)} target="_blank" rel="noreferrer" className="font-mono text-gray-400 hover:text-white">{item.postId}</a>
+                    <span className="text-gray-600 tabular-nums">{item.attempts} attempt{item.attempts === 1 ? '' : 's'}</span>
+                    {item.message && <span className="text-red-300/80 truncate" title={item.message}>{item.message}</span>}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          );
+        })}
+      </div>
+
+      {counts.failed > 0 && (
+        <div className="mt-5 flex items-center gap-3">
+          <button
+            onClick={onRetryFailed}
+            disabled={!!retryBlockedReason}
+            title={retryBlockedReason || undefined}
+            className="bg-yellow-600 hover:bg-yellow-500 text-black px-5 py-2 rounded-full text-xs font-black uppercase tracking-wider disabled:opacity-50 flex items-center gap-2"
+          >
+            <RotateCcw size={14} /> Retry {counts.failed} failed
+          </button>
+          {retryBlockedReason && <span className="text-[11px] text-yellow-500">{retryBlockedReason}</span>}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default RunReportPanel;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { CheckSquare, Square, Repeat, ShieldCheck, Fingerprint, ListPlus } from 'lucide-react';
+import { AuditCategory } from '../types';
+import { AuditSelector } from '../services/selection';
+import { AUDIT_CATEGORIES } from '../services/auditPrompt';
+
+interface SelectionBarProps {
+  matching: number;
+  selected: number;
+  kept: number;
+  hasAudits: boolean;
+  // Matching posts with privacy scan findings.
+  privacyFindings: number;
+  // Posts of partly matched threads that the filters left out.
+  threadPostsMissing: number;
+  disabled: boolean;
+  onSelectAll: () => void;
+  onSelectNone: () => void;
+  onInvert: () => void;
+  onSelectByAudit: (selector: AuditSelector) => void;
+  onSelectPrivacy: () => void;
+  onClearKeepList: () => void;
+  onIncludeThreads: () => void;
+}
+
+const baseButtonClass = "flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-gray-800 bg-gray-900 text-xs font-bold hover:text-white hover:border-gray-600 disabled:opacity-40 transition-all";
+const buttonClass = `${baseButtonClass} text-gray-400`;
+
+const SelectionBar: React.FC<SelectionBarProps> = ({
+  matching, selected, kept, hasAudits, privacyFindings, threadPostsMissing, disabled,
+  onSelectAll, onSelectNone, onInvert, onSelectByAudit, onSelectPrivacy, onClearKeepList, onIncludeThreads
+}) => (
+  <div className="glass-panel px-4 py-3 rounded-2xl flex flex-wrap items-center gap-2">
+    <span className="text-xs text-gray-400 font-bold mr-2 tabular-nums">
+      {selected} of {matching} selected
+    </span>
+    <button onClick={onSelectAll} disabled={disabled} className={buttonClass}><CheckSquare size={12} /> All</button>
+    <button onClick={onSelectNone} disabled={disabled} className={buttonClass}><Square size={12} /> None</button>
+    <button onClick={onInvert} disabled={disabled} className={buttonClass}><Repeat size={12} /> Invert</button>
+    <span className="w-px h-5 bg-gray-800 mx-1" />
+    {(['High', 'Medium'] as const).map(riskLevel => (
+      <button
+        key={riskLevel}
+        onClick={() => onSelectByAudit({ riskLevel })}
+        disabled={disabled || !hasAudits}
+        title={hasAudits ? `Select only posts audited as ${riskLevel} risk` : 'Run an audit first'}
+        className={`${baseButtonClass} ${riskLevel === 'High' ? 'text-red-400' : 'text-yellow-500'}`}
+      >
+        {riskLevel} risk
+      </button>
+    ))}
+    <button
+      onClick={onSelectPrivacy}
+      disabled={disabled || privacyFindings === 0}
+      title="Select only posts where the privacy scan found personal data or secrets"
+      className={`${baseButtonClass} text-pink-400`}
+    >
+      <Fingerprint size={12} /> Leaked data ({privacyFindings})
+    </button>
+    <select
+      value=""
+      onChange={(e) => e.target.value && onSelectByAudit({ category: e.target.value as AuditCategory })}
+      disabled={disabled || !hasAudits}
+      className="bg-gray-900 border border-gray-800 rounded-lg px-2 py-1.5 text-xs font-bold text-gray-400 focus:outline-none disabled:opacity-40"
+    >
+      <option value="">By category…</option>
+      {AUDIT_CATEGORIES.map(category => <option key={category} value={category}>{category}</option>)}
+    </select>
+    {threadPostsMissing > 0 && (
+      <button
+        onClick={onIncludeThreads}
+        disabled={disabled}
+        title="The filters matched only part of some threads; add the rest of those threads"
+        className={`${baseButtonClass} text-indigo-300`}
+      >
+        <ListPlus size={12} /> Include full threads (+{threadPostsMissing})
+      </button>
+    )}
+    {kept > 0 && (
+      <span className="ml-auto flex items-center gap-2 text-xs text-green-400 font-bold">
+        <ShieldCheck size={14} /> {kept} on keep list
+        <button onClick={onClearKeepList} disabled={disabled} className="text-[10px] text-gray-500 hover:text-white uppercase tracking-wider disabled:opacity-40">
+          Clear
+        </button>
+      </span>
+    )}
+  </div>
+);
+
+export default SelectionBar;
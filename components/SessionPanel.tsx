@@ -0,0 +1,56 @@
+import React from 'react';
+import { LogIn, LogOut, UserCheck, AlertTriangle } from 'lucide-react';
+import { XSession, ArchiveAccount } from '../types';
+
+interface SessionPanelProps {
+  session: XSession | null;
+  archiveAccount: ArchiveAccount | null;
+  busy: boolean;
+  onSignIn: () => void;
+  onSignOut: () => void;
+}
+
+const SessionPanel: React.FC<SessionPanelProps> = ({ session, archiveAccount, busy, onSignIn, onSignOut }) => {
+  if (!session) {
+    return (
+      <button
+        onClick={onSignIn}
+        disabled={busy}
+        className="border border-gray-700 text-gray-300 px-6 py-2.5 rounded-full font-medium hover:bg-gray-800 disabled:opacity-50 transition-colors flex items-center gap-2"
+      >
+        <LogIn size={18} />
+        {busy ? 'Connecting...' : 'Sign in with X'}
+      </button>
+    );
+  }
+
+  const mismatch = archiveAccount && archiveAccount.accountId !== session.user.id;
+
+  return (
+    <div className={`flex items-center gap-3 pl-4 pr-2 py-1.5 rounded-full border ${
+      mismatch ? 'border-red-800 bg-red-900/20' : 'border-gray-800 bg-gray-900'
+    }`}>
+      {mismatch
+        ? <AlertTriangle size={16} className="text-red-400" />
+        : <UserCheck size={16} className="text-green-400" />}
+      <div className="leading-tight">
+        <div className="text-sm font-bold">@{session.user.username}</div>
+        <div className={`text-[10px] uppercase font-bold tracking-wider ${mismatch ? 'text-red-400' : 'text-gray-500'}`}>
+          {mismatch
+            ? `Archive is @${archiveAccount.username}`
+            : archiveAccount ? 'Archive verified' : 'Awaiting archive'}
+        </div>
+      </div>
+      <button
+        onClick={onSignOut}
+        disabled={busy}
+        title="Sign out and revoke access"
+        className="p-2 rounded-full text-gray-500 hover:text-red-400 hover:bg-white/5 disabled:opacity-50 transition-colors"
+      >
+        <LogOut size={16} />
+      </button>
+    </div>
+  );
+};
+
+export default SessionPanel;
@@ -0,0 +1,75 @@
+// Minimal stand-in for the X API v2 deletion and unlike endpoints, for exercising the
+// purge queue without a real account. Run with `npm run mock:x-api`.
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT) || 8787;
+const WINDOW_MS = 60_000;
+const REQUESTS_PER_WINDOW = Number(process.env.MOCK_RATE_LIMIT) || 50;
+
+const deleted = new Set();
+// Unlikes are metered apart from deletions, as on X.
+const windows = { delete: { start: Date.now(), count: 0 }, unlike: { start: Date.now(), count: 0 } };
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Allow-Methods': 'DELETE, OPTIONS',
+    'Access-Control-Expose-Headers': 'x-rate-limit-limit, x-rate-limit-remaining, x-rate-limit-reset',
+    ...headers
+  });
+  res.end(body ? JSON.stringify(body) : undefined);
+};
+
+http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  if (!/^Bearer \S+/.test(req.headers.authorization || '')) {
+    return send(res, 401, { title: 'Unauthorized', detail: 'Missing bearer token' });
+  }
+
+  const tweet = req.url.match(/^\/2\/tweets\/(\d+)$/);
+  const retweet = req.url.match(/^\/2\/users\/[^/]+\/retweets\/(\d+)$/);
+  const like = req.url.match(/^\/2\/users\/[^/]+\/likes\/(\d+)$/);
+
+  const now = Date.now();
+  const window = windows[like ? 'unlike' : 'delete'];
+  if (now - window.start >= WINDOW_MS) {
+    window.start = now;
+    window.count = 0;
+  }
+  window.count += 1;
+  const rateHeaders = {
+    'x-rate-limit-limit': String(REQUESTS_PER_WINDOW),
+    'x-rate-limit-remaining': String(Math.max(0, REQUESTS_PER_WINDOW - window.count)),
+    'x-rate-limit-reset': String(Math.ceil((window.start + WINDOW_MS) / 1000))
+  };
+  if (window.count > REQUESTS_PER_WINDOW) {
+    return send(res, 429, { title: 'Too Many Requests' }, rateHeaders);
+  }
+
+  const id = req.method === 'DELETE' && (tweet?.[1] || retweet?.[1] || like?.[1]);
+  if (!id) return send(res, 404, { title: 'Not Found' }, rateHeaders);
+
+  // Unliking a post that is not liked is not an error on X; it just reports liked: false.
+  if (like) {
+    console.log(`DELETE ${req.url}`);
+    return send(res, 200, { data: { liked: false } }, rateHeaders);
+  }
+
+  if (deleted.has(id)) {
+    return send(res, 404, {
+      title: 'Not Found Error',
+      detail: `Could not find tweet with id: [${id}].`,
+      type: 'https://api.twitter.com/2/problems/resource-not-found',
+      resource_type: 'tweet',
+      resource_id: id
+    }, rateHeaders);
+  }
+  deleted.add(id);
+  console.log(`DELETE ${req.url}`);
+  send(res, 200, { data: tweet ? { deleted: true } : { retweeted: false } }, rateHeaders);
+}).listen(PORT, () => {
+  console.log(`Mock X API listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { analyzePosts } from "./analytics";
+import { compileQuery, parseQuery } from "./queryLanguage";
+import { makePost } from "./testUtils";
+
+describe("analyzePosts", () => {
+  it("counts months in the given zone, including empty ones, and leaves likes out", () => {
+    const posts = [
+      // 23:30 UTC on New Year's Eve is already January in Berlin.
+      makePost({ id: "1", created_at: "2020-12-31T23:30:00Z" }),
+      makePost({ id: "2", created_at: "2021-03-10T12:00:00Z", type: "reply" }),
+      makePost({ id: "3", created_at: "2019-01-01T12:00:00Z", type: "like" })
+    ];
+
+    expect(analyzePosts(posts, "UTC").months.map(m => m.month)).toEqual(["2020-12", "2021-01", "2021-02", "2021-03"]);
+
+    const berlin = analyzePosts(posts, "Europe/Berlin");
+    expect(berlin.months.map(m => [m.month, m.total])).toEqual([["2021-01", 1], ["2021-02", 0], ["2021-03", 1]]);
+    expect(berlin.months[2].counts).toEqual({ reply: 1 });
+    // Thursday 00:30 in Berlin.
+    expect(berlin.heatmap[5][0]).toBe(1);
+  });
+
+  it("buckets engagement without reposts and offers queries that select the bucket", () => {
+    const posts = [
+      makePost({ id: "1", favorite_count: 12 }),
+      makePost({ id: "2", favorite_count: 0 }),
+      makePost({ id: "3", favorite_count: 5000, type: "repost" })
+    ];
+    const { engagement } = analyzePosts(posts, "UTC");
+    const bucket = engagement.find(b => b.label === "10–49")!;
+    expect(bucket.likes).toBe(1);
+    expect(engagement.find(b => b.label === "1000+")!.likes).toBe(0);
+
+    const matches = compileQuery(parseQuery(bucket.likesQuery));
+    const time = Date.parse("2021-06-30T12:00:00Z");
+    expect(posts.filter(p => matches(p, time)).map(p => p.id)).toEqual(["1"]);
+  });
+
+  it("ranks hashtags, mentions, domains and words once per post", () => {
+    const posts = [
+      makePost({
+        id: "1",
+        full_text: "Shipping the release today #Launch #launch @Alice https://t.co/x",
+        hashtags: ["Launch", "launch"],
+        mentions: [{ id: "9", screen_name: "Alice" }],
+        urls: [{ url: "https://t.co/x", expanded_url: "https://www.example.com/post", display_url: "example.com/post" }]
+      }),
+      makePost({ id: "2", full_text: "Another release note #launch", hashtags: ["launch"] })
+    ];
+    const analytics = analyzePosts(posts, "UTC");
+    expect(analytics.hashtags[0]).toMatchObject({ term: "launch", count: 2 });
+    expect(analytics.mentions[0]).toMatchObject({ term: "alice", count: 1 });
+    expect(analytics.domains[0]).toMatchObject({ term: "example.com", count: 1 });
+    expect(analytics.words[0]).toMatchObject({ term: "release", count: 2 });
+    expect(analytics.words.map(w => w.term)).not.toContain("the");
+    analytics.hashtags.concat(analytics.mentions, analytics.domains, analytics.words).forEach(term => {
+      expect(() => parseQuery(term.query)).not.toThrow();
+    });
+  });
+});
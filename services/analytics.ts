@@ -0,0 +1,125 @@
+import { XPost, ArchiveAnalytics, EngagementBucket, TermCount, QueryNode } from "../types";
+import { formatQuery, hostOf } from "./queryLanguage";
+import { zonedTime } from "./timeZone";
+
+// Whole-archive statistics for the analytics dashboard, computed in one pass in the worker.
+// Likes are left out: they are other people's posts, dated when they were written, not liked.
+// Months and the heatmap use the filters' time zone, so a clicked month matches the date filter.
+
+const TOP_TERMS = 15;
+
+// Engagement histogram buckets as [min, max]; a null max is open-ended.
+const ENGAGEMENT_BUCKETS: [number, number | null][] = [[0, 0], [1, 1], [2, 4], [5, 9], [10, 49], [50, 99], [100, 999], [1000, null]];
+
+// Common English function words, plus archive noise such as "rt" and HTML entities.
+const STOP_WORDS = new Set(`
+a about above after again against all am an and any are as at be because been before being below between both but by
+can could did do does doing don down during each few for from further had has have having he her here hers herself him
+himself his how i if in into is it its itself just me more most my myself no nor not now of off on once only or other our
+ours ourselves out over own same she should so some such than that the their theirs them themselves then there these
+they this those through to too under until up very was we were what when where which while who whom why will with would
+you your yours yourself yourselves i'm it's don't can't i've i'll you're that's there's didn't doesn't isn't won't
+get got just like really also one still even much way well back going know think want need make see good new now
+rt amp gt lt via
+`.trim().split(/\s+/));
+
+function monthRange(first: string, last: string): string[] {
+  const months: string[] = [];
+  let [year, month] = first.split('-').map(Number);
+  const [lastYear, lastMonth] = last.split('-').map(Number);
+  while (year < lastYear || (year === lastYear && month <= lastMonth)) {
+    months.push(`${year}-${String(month).padStart(2, '0')}`);
+    month += 1;
+    if (month > 12) {
+      month = 1;
+      year += 1;
+    }
+  }
+  return months;
+}
+
+function topTerms(counts: Map<string, number>, toQuery: (term: string) => QueryNode): TermCount[] {
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, TOP_TERMS)
+    .map(([term, count]) => ({ term, count, query: formatQuery(toQuery(term)) }));
+}
+
+function bucketQuery(metric: 'likes' | 'reposts', [min, max]: [number, number | null]): string {
+  if (max === min) return formatQuery({ kind: 'metric', metric, op: '=', value: min });
+  const children: QueryNode[] = [{ kind: 'metric', metric, op: '>=', value: min }];
+  if (max !== null) children.push({ kind: 'metric', metric, op: '<=', value: max });
+  return formatQuery(children.length === 1 ? children[0] : { kind: 'and', children });
+}
+
+const count = (counts: Map<string, number>, key: string) => counts.set(key, (counts.get(key) || 0) + 1);
+
+// Words as the query language's text matching sees them; links, mentions and hashtags have their own lists.
+function wordsOf(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/\u2019/g, "'")
+    .replace(/'s\b/g, '')
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[@#]\w+/g, ' ')
+    .match(/[\p{L}][\p{L}\p{N}']*[\p{L}\p{N}]/gu) ?? [];
+}
+
+export function analyzePosts(posts: XPost[], timeZone: string): ArchiveAnalytics {
+  const monthCounts = new Map<string, ArchiveAnalytics['months'][number]>();
+  const engagement = ENGAGEMENT_BUCKETS.map(() => ({ likes: 0, reposts: 0 }));
+  const hashtags = new Map<string, number>();
+  const mentions = new Map<string, number>();
+  const domains = new Map<string, number>();
+  const words = new Map<string, number>();
+  const heatmap = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  const bucketOf = (value: number) => ENGAGEMENT_BUCKETS.findIndex(([min, max]) => value >= min && (max === null || value <= max));
+
+  posts.forEach(post => {
+    if (post.type === 'like') return;
+    const time = new Date(post.created_at).getTime();
+    if (isNaN(time)) return;
+
+    const date = zonedTime(time, timeZone);
+    const key = `${date.year}-${String(date.month).padStart(2, '0')}`;
+    const month = monthCounts.get(key) ?? { month: key, counts: {}, total: 0 };
+    month.counts[post.type] = (month.counts[post.type] || 0) + 1;
+    month.total += 1;
+    monthCounts.set(key, month);
+    heatmap[date.weekday][date.hour] += 1;
+
+    // Reposts carry the original post's engagement, not ours.
+    if (post.type !== 'repost') {
+      engagement[bucketOf(post.favorite_count)].likes += 1;
+      engagement[bucketOf(post.retweet_count)].reposts += 1;
+    }
+
+    new Set(post.hashtags.map(h => h.toLowerCase())).forEach(tag => count(hashtags, tag));
+    new Set(post.mentions.map(m => m.screen_name.toLowerCase())).forEach(name => count(mentions, name));
+    new Set(post.urls.map(u => hostOf(u.expanded_url)).filter(Boolean)).forEach(host => count(domains, host));
+    if (post.type !== 'repost') {
+      new Set(wordsOf(post.full_text).filter(w => w.length > 2 && !STOP_WORDS.has(w))).forEach(word => count(words, word));
+    }
+  });
+
+  const keys = [...monthCounts.keys()].sort();
+  const months = keys.length === 0
+    ? []
+    : monthRange(keys[0], keys[keys.length - 1]).map(month => monthCounts.get(month) ?? { month, counts: {}, total: 0 });
+
+  return {
+    months,
+    engagement: ENGAGEMENT_BUCKETS.map((range, i): EngagementBucket => ({
+      label: range[1] === null ? `${range[0]}+` : range[0] === range[1] ? String(range[0]) : `${range[0]}–${range[1]}`,
+      likes: engagement[i].likes,
+      reposts: engagement[i].reposts,
+      likesQuery: bucketQuery('likes', range),
+      repostsQuery: bucketQuery('reposts', range)
+    })),
+    hashtags: topTerms(hashtags, value => ({ kind: 'hashtag', value })),
+    mentions: topTerms(mentions, value => ({ kind: 'mention', value })),
+    domains: topTerms(domains, value => ({ kind: 'domain', value })),
+    words: topTerms(words, value => ({ kind: 'text', value, phrase: false, prefix: false })),
+    heatmap
+  };
+}
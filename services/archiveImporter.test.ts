@@ -0,0 +1,99 @@
+import { strToU8, zipSync } from "fflate";
+import { describe, expect, it } from "vitest";
+import { ArchiveImportError, importArchive } from "./archiveImporter";
+
+const tweet = (id: string, fields: Record<string, unknown> = {}) =>
+  ({ tweet: { id_str: id, full_text: `post ${id}`, created_at: "Wed Jun 30 12:00:00 +0000 2021", ...fields } });
+
+const script = (name: string, records: unknown[]) => `window.YTD.${name} = ${JSON.stringify(records, null, 2)}`;
+
+const zipFile = (entries: Record<string, string>) => new File(
+  [zipSync(Object.fromEntries(Object.entries(entries).map(([path, text]) => [`twitter-archive/${path}`, strToU8(text)])))],
+  "twitter-archive.zip"
+);
+
+// A loose file whose stream hands out a few bytes at a time, splitting records,
+// strings and multi-byte characters across chunks.
+class ChunkedFile extends File {
+  constructor(private readonly content: Uint8Array, name: string, private readonly chunkSize: number) {
+    super([content], name);
+  }
+
+  stream() {
+    let offset = 0;
+    return new ReadableStream({
+      pull: controller => {
+        if (offset >= this.content.length) return controller.close();
+        controller.enqueue(this.content.slice(offset, offset += this.chunkSize));
+      }
+    });
+  }
+}
+
+describe("importArchive", () => {
+  it("parses records split across chunk boundaries", async () => {
+    const text = "brackets ] } [ { and \"quotes\" \\ in text, é 🎉";
+    const records = [tweet("1", { full_text: text }), tweet("2", { entities: { hashtags: [{ text: "nested" }] } })];
+    const file = new ChunkedFile(strToU8(script("tweets.part0", records)), "tweets.js", 3);
+    const { posts, report } = await importArchive([file]);
+    expect(posts!.map(p => p.full_text)).toEqual([text, "post 2"]);
+    expect(posts![1].hashtags).toEqual(["nested"]);
+    expect(report).toEqual([{ fileName: "tweets.js", kind: "tweets", records: 2, imported: 2, duplicates: 0 }]);
+  });
+
+  it("counts posts repeated across tweets parts once", async () => {
+    const { posts, report } = await importArchive([zipFile({
+      "data/tweets.js": script("tweets.part0", [tweet("1"), tweet("2")]),
+      "data/tweets-part1.js": script("tweets.part1", [tweet("2"), tweet("3")])
+    })]);
+    expect(posts!.map(p => p.id)).toEqual(["1", "2", "3"]);
+    expect(report.map(r => [r.records, r.imported, r.duplicates])).toEqual([[2, 2, 0], [2, 1, 1]]);
+  });
+
+  it("classifies replies to our own posts and account as self-threads", async () => {
+    const { posts } = await importArchive([zipFile({
+      "data/account.js": script("account.part0", [{ account: { accountId: "42", username: "me" } }]),
+      "data/tweets.js": script("tweets.part0", [
+        tweet("1"),
+        tweet("2", { in_reply_to_status_id_str: "1", in_reply_to_user_id_str: "42" }),
+        // The parent was deleted before the archive was made, but it was ours.
+        tweet("3", { in_reply_to_status_id_str: "99", in_reply_to_user_id_str: "42" }),
+        tweet("4", { in_reply_to_status_id_str: "100", in_reply_to_user_id_str: "7" })
+      ])
+    })]);
+    expect(posts!.map(p => p.type)).toEqual(["tweet", "self-thread", "self-thread", "reply"]);
+  });
+
+  it("reports a truncated part and keeps the posts from the others", async () => {
+    const truncated = script("tweets.part1", [tweet("3"), tweet("4")]).slice(0, -40);
+    const { posts, report } = await importArchive([zipFile({
+      "data/tweets.js": script("tweets.part0", [tweet("1"), tweet("2")]),
+      "data/tweets-part1.js": truncated
+    })]);
+    expect(posts!.map(p => p.id)).toEqual(["1", "2", "3"]);
+    expect(report[1]).toMatchObject({ fileName: "twitter-archive/data/tweets-part1.js", error: "File is truncated or is not an archive data file" });
+  });
+
+  it("fails when the only tweets file is truncated", async () => {
+    const truncated = script("tweets.part0", [tweet("1"), tweet("2")]).slice(0, -40);
+    await expect(importArchive([zipFile({ "data/tweets.js": truncated })])).rejects.toMatchObject({ code: "parse" });
+    await expect(importArchive([zipFile({ "data/tweets.js": truncated })])).rejects.toThrow(ArchiveImportError);
+  });
+
+  it("reports files the manifest lists but the upload lacks", async () => {
+    const manifest = {
+      userInfo: { accountId: "42", userName: "me" },
+      dataTypes: {
+        tweets: { files: [{ fileName: "data/tweets.js" }] },
+        like: { files: [{ fileName: "data/like.js" }] }
+      }
+    };
+    const { posts, report } = await importArchive([zipFile({
+      "data/manifest.js": `window.__THAR_CONFIG = ${JSON.stringify(manifest)}`,
+      "data/tweets.js": script("tweets.part0", [tweet("1")])
+    })]);
+    expect(posts!.map(p => p.id)).toEqual(["1"]);
+    expect(report.map(r => r.kind)).toEqual(["manifest", "tweets", "like"]);
+    expect(report[2]).toMatchObject({ fileName: "data/like.js", imported: 0, error: "Listed in manifest but missing from the upload" });
+  });
+});
@@ -0,0 +1,478 @@
+import { Unzip, UnzipInflate } from "fflate";
+import { XPost, ArchiveTweet, PostType, ArchiveAccount, ArchiveFileKind, ArchiveImport, ImportFileReport, ImportProgress, ImportErrorCode } from "../types";
+
+export class ArchiveImportError extends Error {
+  constructor(message: string, readonly code: ImportErrorCode, readonly fileName?: string) {
+    super(message);
+  }
+}
+
+interface ArchiveSource {
+  size: number;
+  chunks: () => AsyncIterable<Uint8Array>;
+}
+
+interface PlannedFile {
+  fileName: string;
+  kind: ArchiveFileKind;
+}
+
+export interface ImportOptions {
+  onProgress?: (progress: ImportProgress) => void;
+  isCancelled?: () => boolean;
+  // Receives the original object of every imported tweet, for callers that keep backups.
+  onTweet?: (id: string, tweet: ArchiveTweet) => void;
+}
+
+// Only the data files we understand are extracted; media folders are skipped.
+const RELEVANT_FILE = /(^|\/)(manifest|account|like|following|deleted-tweets?(-part\d+)?|tweets?(-part\d+)?)\.js(on)?$/;
+
+const MANIFEST_DATA_TYPES: Record<string, ArchiveFileKind> = {
+  tweets: 'tweets',
+  tweet: 'tweets',
+  account: 'account',
+  like: 'like',
+  following: 'following',
+  deletedTweets: 'deleted-tweets'
+};
+
+function kindFromName(name: string): ArchiveFileKind | null {
+  const base = name.split('/').pop()!.replace(/\.(js|json)$/, '');
+  if (base === 'manifest') return 'manifest';
+  if (base === 'account') return 'account';
+  if (base === 'like') return 'like';
+  if (base === 'following') return 'following';
+  if (/^deleted-tweets?(-part\d+)?$/.test(base)) return 'deleted-tweets';
+  if (/^tweets?(-part\d+)?$/.test(base)) return 'tweets';
+  return null;
+}
+
+function fileSource(file: File): ArchiveSource {
+  return {
+    size: file.size,
+    chunks: async function* () {
+      const reader = file.stream().getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        yield value;
+      }
+    }
+  };
+}
+
+function chunksSource(chunks: Uint8Array[]): ArchiveSource {
+  return {
+    size: chunks.reduce((sum, chunk) => sum + chunk.length, 0),
+    chunks: async function* () {
+      yield* chunks;
+    }
+  };
+}
+
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+
+// Streams the zip and inflates only the data files; media entries are never started,
+// so their bytes pass through without being decompressed or kept.
+async function unzipDataFiles(
+  file: File,
+  sources: Map<string, ArchiveSource>,
+  onBytes: (bytes: number) => void,
+  isCancelled: () => boolean
+): Promise<void> {
+  const badZip = (message: string) => new ArchiveImportError(`Could not unzip ${file.name}: ${message}`, 'bad-zip', file.name);
+  let failure: Error | null = null;
+  const unzip = new Unzip(entry => {
+    if (!RELEVANT_FILE.test(entry.name)) return;
+    const chunks: Uint8Array[] = [];
+    entry.ondata = (err, data, final) => {
+      if (err) {
+        failure = err;
+        return;
+      }
+      if (data.length > 0) chunks.push(data);
+      if (final) sources.set(entry.name, chunksSource(chunks));
+    };
+    try {
+      entry.start();
+    } catch (e) {
+      failure = e as Error;
+    }
+  });
+  unzip.register(UnzipInflate);
+
+  const reader = file.stream().getReader();
+  let first = true;
+  try {
+    while (true) {
+      if (isCancelled()) throw new ArchiveImportError('Import cancelled', 'cancelled');
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (first && !ZIP_SIGNATURE.every((byte, i) => value[i] === byte)) throw badZip('not a zip file');
+      first = false;
+      unzip.push(value, false);
+      if (failure) throw badZip(failure.message);
+      onBytes(value.length);
+    }
+    unzip.push(new Uint8Array(0), true);
+  } catch (e) {
+    reader.cancel().catch(() => {});
+    if (e instanceof ArchiveImportError) throw e;
+    throw badZip((e as Error).message);
+  }
+  if (failure) throw badZip((failure as Error).message);
+}
+
+// Flattens zips, directory picks and loose files into one path -> source map.
+// Individually picked files are kept whatever their name, since users rename them.
+async function collectSources(
+  files: File[],
+  onBytes: (fileName: string, bytes: number) => void,
+  isCancelled: () => boolean
+): Promise<{ sources: Map<string, ArchiveSource>; loose: Set<string> }> {
+  const sources = new Map<string, ArchiveSource>();
+  const loose = new Set<string>();
+  for (const file of files) {
+    if (/\.zip$/i.test(file.name)) {
+      await unzipDataFiles(file, sources, bytes => onBytes(file.name, bytes), isCancelled);
+    } else if (file.webkitRelativePath) {
+      if (RELEVANT_FILE.test(file.webkitRelativePath)) sources.set(file.webkitRelativePath, fileSource(file));
+    } else {
+      sources.set(file.name, fileSource(file));
+      loose.add(file.name);
+    }
+  }
+  return { sources, loose };
+}
+
+// Archive paths are relative to the archive root, but zips and folders usually
+// add a top-level directory, and loose uploads lose the `data/` prefix entirely.
+function resolveSource(sources: Map<string, ArchiveSource>, fileName: string): [string, ArchiveSource] | null {
+  const base = fileName.split('/').pop()!;
+  for (const [path, source] of sources) {
+    if (path === fileName || path.endsWith(`/${fileName}`)) return [path, source];
+  }
+  for (const [path, source] of sources) {
+    if (path.split('/').pop() === base) return [path, source];
+  }
+  return null;
+}
+
+export function parseArchiveScript(content: string): any {
+  const prefix = content.match(/^\s*window\.[\w.]+\s*=\s*/);
+  return JSON.parse(prefix ? content.slice(prefix[0].length) : content);
+}
+
+async function readText(source: ArchiveSource): Promise<string> {
+  const decoder = new TextDecoder();
+  let text = '';
+  for await (const chunk of source.chunks()) text += decoder.decode(chunk, { stream: true });
+  return text + decoder.decode();
+}
+
+// Walks `window.YTD.x.partN = [ {...}, {...} ]` chunk by chunk and parses each
+// top-level element on its own, so the full file never has to be held as one string.
+async function streamRecords(
+  source: ArchiveSource,
+  onRecord: (record: any) => void,
+  onBytes: (bytes: number) => void,
+  isCancelled: () => boolean
+): Promise<void> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let scanFrom = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let recordStart = -1;
+  let sawArray = false;
+
+  const scan = () => {
+    for (let i = scanFrom; i < buffer.length; i++) {
+      const c = buffer[i];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (c === '\\') escaped = true;
+        else if (c === '"') inString = false;
+        continue;
+      }
+      if (c === '"') {
+        inString = depth > 0;
+      } else if (c === '[' || c === '{') {
+        if (depth === 0 && c === '[') sawArray = true;
+        if (depth === 1) recordStart = i;
+        if (depth > 0 || c === '[') depth += 1;
+      } else if ((c === ']' || c === '}') && depth > 0) {
+        depth -= 1;
+        if (depth === 1 && recordStart >= 0) {
+          onRecord(JSON.parse(buffer.slice(recordStart, i + 1)));
+          recordStart = -1;
+        }
+      }
+    }
+    // Drop everything already consumed, keeping the partial record (if any).
+    buffer = recordStart >= 0 ? buffer.slice(recordStart) : '';
+    if (recordStart >= 0) recordStart = 0;
+    scanFrom = buffer.length;
+  };
+
+  for await (const chunk of source.chunks()) {
+    if (isCancelled()) throw new ArchiveImportError('Import cancelled', 'cancelled');
+    buffer += decoder.decode(chunk, { stream: true });
+    scan();
+    onBytes(chunk.length);
+  }
+  buffer += decoder.decode();
+  scan();
+
+  if (!sawArray || depth !== 0) throw new Error('File is truncated or is not an archive data file');
+}
+
+const STATUS_URL = /^https?:\/\/(www\.|mobile\.)?(twitter|x)\.com\/\w+\/status(es)?\/(\d+)/i;
+
+// Archives drop retweeted_status and the "RT @author:" text names no post, but media
+// entities keep the id of the post they were first attached to.
+function repostSource(t: any): string | undefined {
+  const media: any[] = t.extended_entities?.media ?? t.entities?.media ?? [];
+  return media.find(m => m.source_status_id_str)?.source_status_id_str;
+}
+
+export function normalizePost(item: any): XPost {
+  const t = item.tweet ?? item;
+  const entities = t.entities ?? {};
+  const urls = (entities.urls ?? []).map((u: any) => ({
+    url: u.url,
+    expanded_url: u.expanded_url || u.url,
+    display_url: u.display_url || u.url
+  }));
+
+  // Archives rarely carry quoted_status_id_str; a trailing status permalink is how quotes are stored.
+  const trailingStatus = urls.length > 0 ? urls[urls.length - 1].expanded_url.match(STATUS_URL) : null;
+  const quotedStatusId = t.quoted_status_id_str
+    || (trailingStatus && t.full_text.trimEnd().endsWith(urls[urls.length - 1].url) ? trailingStatus[4] : undefined);
+
+  let type: PostType = 'tweet';
+  let repostOfId: string | undefined = t.retweeted_status?.id_str;
+
+  if (t.full_text.startsWith('RT @')) {
+    type = 'repost';
+    repostOfId ??= repostSource(t);
+  } else if (t.in_reply_to_status_id_str) {
+    type = 'reply';
+  } else if (quotedStatusId) {
+    type = 'quote';
+  }
+
+  return {
+    id: t.id_str,
+    full_text: t.full_text,
+    created_at: t.created_at,
+    type,
+    reply_to_user_id: t.in_reply_to_user_id_str,
+    reply_to_status_id: t.in_reply_to_status_id_str,
+    reply_to_screen_name: t.in_reply_to_screen_name,
+    repost_of_id: repostOfId,
+    quoted_status_id: quotedStatusId,
+    favorite_count: parseInt(t.favorite_count) || 0,
+    retweet_count: parseInt(t.retweet_count) || 0,
+    lang: t.lang && t.lang !== 'und' ? t.lang : undefined,
+    source: typeof t.source === 'string' ? t.source.replace(/<[^>]*>/g, '').trim() || undefined : undefined,
+    hashtags: (entities.hashtags ?? []).map((h: any) => h.text),
+    mentions: (entities.user_mentions ?? []).map((m: any) => ({ id: m.id_str, screen_name: m.screen_name })),
+    urls,
+    media: (t.extended_entities?.media ?? entities.media ?? []).map((m: any) => ({
+      id: m.id_str,
+      type: m.type,
+      media_url: m.media_url_https || m.media_url,
+      expanded_url: m.expanded_url
+    }))
+  };
+}
+
+// Snowflake ids encode their creation time; ids from before snowflakes fall back to its epoch.
+const SNOWFLAKE_EPOCH = 1288834974657;
+
+function snowflakeDate(id: string): string {
+  try {
+    const ms = Number(BigInt(id) >> 22n) + SNOWFLAKE_EPOCH;
+    return new Date(ms > SNOWFLAKE_EPOCH ? ms : SNOWFLAKE_EPOCH).toISOString();
+  } catch {
+    return new Date(SNOWFLAKE_EPOCH).toISOString();
+  }
+}
+
+// like.js only keeps the liked post's id, text and permalink: no author, entities or
+// like date. Entities are recovered from the text and the date is the liked post's own.
+export function normalizeLike(item: any): XPost | null {
+  const like = item.like ?? item;
+  if (!like?.tweetId) return null;
+  const text: string = like.fullText ?? '';
+  return {
+    id: `like:${like.tweetId}`,
+    full_text: text,
+    created_at: snowflakeDate(like.tweetId),
+    type: 'like',
+    liked_tweet_id: like.tweetId,
+    favorite_count: 0,
+    retweet_count: 0,
+    hashtags: [...text.matchAll(/(?:^|[^\w&])#(\w+)/g)].map(m => m[1]),
+    mentions: [...text.matchAll(/(?:^|[^\w])@(\w{1,15})/g)].map(m => ({ id: '', screen_name: m[1] })),
+    urls: [...text.matchAll(/https?:\/\/\S+/g)].map(m => ({ url: m[0], expanded_url: m[0], display_url: m[0] })),
+    media: []
+  };
+}
+
+// Permalink of the post behind an item; for a like that is the liked post.
+export function statusUrl(postId: string): string {
+  return `https://x.com/i/status/${postId.replace(/^like:/, '')}`;
+}
+
+// Replies to one of our own posts (or to our own account) are self-threads rather than
+// replies to other people. Needs the whole set, so it runs after every part is read.
+function classifySelfReplies(posts: Map<string, XPost>, accountId: string | undefined) {
+  posts.forEach(post => {
+    if (post.type !== 'reply') return;
+    if ((post.reply_to_status_id && posts.has(post.reply_to_status_id)) || (accountId && post.reply_to_user_id === accountId)) {
+      post.type = 'self-thread';
+    }
+  });
+}
+
+function planFromManifest(manifest: any): PlannedFile[] {
+  const planned: PlannedFile[] = [];
+  Object.entries(manifest?.dataTypes ?? {}).forEach(([dataType, entry]: [string, any]) => {
+    const kind = MANIFEST_DATA_TYPES[dataType];
+    if (!kind) return;
+    (entry?.files ?? []).forEach((f: any) => f?.fileName && planned.push({ fileName: f.fileName, kind }));
+  });
+  return planned;
+}
+
+export async function importArchive(files: File[], options: ImportOptions = {}): Promise<ArchiveImport> {
+  const { onProgress = () => {}, isCancelled = () => false, onTweet } = options;
+  const uploadBytes = files.reduce((sum, f) => sum + f.size, 0);
+  onProgress({ phase: 'reading', fileName: null, bytesRead: 0, totalBytes: uploadBytes, postsParsed: 0 });
+
+  let uploadRead = 0;
+  const { sources, loose } = await collectSources(files, (fileName, bytes) => {
+    uploadRead += bytes;
+    onProgress({ phase: 'reading', fileName, bytesRead: uploadRead, totalBytes: uploadBytes, postsParsed: 0 });
+  }, isCancelled);
+  const report: ImportFileReport[] = [];
+
+  let manifest: any = null;
+  const manifestSource = resolveSource(sources, 'data/manifest.js');
+  if (manifestSource) {
+    try {
+      manifest = parseArchiveScript(await readText(manifestSource[1]));
+      report.push({ fileName: manifestSource[0], kind: 'manifest', records: 1, imported: 1, duplicates: 0 });
+    } catch (e) {
+      report.push({ fileName: manifestSource[0], kind: 'manifest', records: 0, imported: 0, duplicates: 0, error: (e as Error).message });
+    }
+  }
+
+  const planned = manifest
+    ? planFromManifest(manifest)
+    : [...sources.keys()]
+        .map(path => ({ fileName: path, kind: kindFromName(path) ?? (loose.has(path) ? 'tweets' as const : null) }))
+        .filter((f): f is PlannedFile => f.kind !== null && f.kind !== 'manifest');
+
+  const resolved = planned.map(p => ({ ...p, source: resolveSource(sources, p.fileName) }));
+  const totalBytes = resolved.reduce((sum, r) => sum + (r.source?.[1].size ?? 0), 0);
+  let bytesRead = 0;
+
+  const posts = new Map<string, XPost>();
+  const deletedIds = new Set<string>();
+  const following = new Set<string>();
+  let account: ArchiveAccount | null = manifest?.userInfo?.accountId
+    ? { accountId: manifest.userInfo.accountId, username: manifest.userInfo.userName }
+    : null;
+
+  for (const { fileName, kind, source } of resolved) {
+    const entry: ImportFileReport = { fileName, kind, records: 0, imported: 0, duplicates: 0 };
+    report.push(entry);
+
+    if (!source) {
+      entry.error = 'Listed in manifest but missing from the upload';
+      continue;
+    }
+    entry.fileName = source[0];
+
+    const emit = () => onProgress({ phase: 'parsing', fileName: entry.fileName, bytesRead, totalBytes, postsParsed: posts.size });
+
+    const handleRecord = (item: any) => {
+      entry.records += 1;
+      switch (kind) {
+        case 'tweets': {
+          const post = normalizePost(item);
+          if (posts.has(post.id)) entry.duplicates += 1;
+          else {
+            posts.set(post.id, post);
+            onTweet?.(post.id, item.tweet ?? item);
+            entry.imported += 1;
+          }
+          break;
+        }
+        case 'like': {
+          const post = normalizeLike(item);
+          if (!post) break;
+          if (posts.has(post.id)) entry.duplicates += 1;
+          else {
+            posts.set(post.id, post);
+            entry.imported += 1;
+          }
+          break;
+        }
+        case 'account':
+          if (item.account?.accountId) {
+            account = { accountId: item.account.accountId, username: item.account.username };
+            entry.imported = 1;
+          }
+          break;
+        case 'following': {
+          const id = (item.following ?? item).accountId;
+          if (id) {
+            following.add(id);
+            entry.imported += 1;
+          }
+          break;
+        }
+        case 'deleted-tweets': {
+          const id = (item.tweet ?? item).id_str;
+          if (id) deletedIds.add(id);
+          break;
+        }
+      }
+    };
+
+    const startBytes = bytesRead;
+    try {
+      await streamRecords(source[1], handleRecord, bytes => {
+        bytesRead += bytes;
+        emit();
+      }, isCancelled);
+      if (kind === 'deleted-tweets') entry.note = 'Already deleted on X; excluded from purge targets';
+      if (kind === 'like') entry.note = 'Imported as likes; purging them unlikes the post';
+    } catch (e) {
+      if (e instanceof ArchiveImportError && e.code === 'cancelled') throw e;
+      entry.error = (e as Error).message;
+      bytesRead = startBytes + source[1].size;
+      emit();
+    }
+  }
+
+  const hasPosts = report.some(r => (r.kind === 'tweets' || r.kind === 'like') && !r.error);
+  const hasFollowing = report.some(r => r.kind === 'following' && !r.error);
+  if (!hasPosts && !account && !hasFollowing) {
+    const failed = report.find(r => r.kind === 'tweets' && r.error);
+    throw failed
+      ? new ArchiveImportError(`Could not read ${failed.fileName}: ${failed.error}`, 'parse', failed.fileName)
+      : new ArchiveImportError("No tweets.js was found. Upload the archive .zip, its folder, or data/tweets.js.", 'no-tweets');
+  }
+
+  classifySelfReplies(posts, account?.accountId);
+  deletedIds.forEach(id => posts.delete(id));
+  onProgress({ phase: 'done', fileName: null, bytesRead: totalBytes, totalBytes, postsParsed: posts.size });
+
+  return { posts: hasPosts ? [...posts.values()] : null, account, following: hasFollowing ? [...following] : null, report };
+}
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ArchiveWorkerRequest, ArchiveWorkerResponse } from "../workers/archive.worker";
+import { ArchiveImport } from "../types";
+import { analyzePosts } from "./analytics";
+import { ArchiveWorkerClient, ArchiveWorkerError } from "./archiveWorker";
+
+// Stands in for the archive worker: records what the client sends and replies on demand.
+class FakeWorker {
+  static current: FakeWorker;
+  readonly sent: ArchiveWorkerRequest[] = [];
+  onmessage: ((event: { data: ArchiveWorkerResponse }) => void) | null = null;
+  onerror: ((event: { message: string }) => void) | null = null;
+
+  constructor() {
+    FakeWorker.current = this;
+  }
+
+  postMessage(message: ArchiveWorkerRequest) {
+    this.sent.push(message);
+  }
+
+  reply(message: ArchiveWorkerResponse) {
+    this.onmessage?.({ data: message });
+  }
+
+  requestIdOf(type: ArchiveWorkerRequest['type']): number {
+    const message = this.sent.find(m => m.type === type);
+    if (!message || !('requestId' in message)) throw new Error(`No ${type} request was sent`);
+    return message.requestId;
+  }
+
+  terminate() {}
+}
+
+const imported: ArchiveImport = { posts: [], account: null, following: null, report: [] };
+
+beforeEach(() => {
+  vi.stubGlobal("Worker", FakeWorker);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("ArchiveWorkerClient", () => {
+  it("rejects only the request that failed and keeps a streaming import alive", async () => {
+    const client = new ArchiveWorkerClient();
+    const worker = FakeWorker.current;
+    const onProgress = vi.fn();
+    const archive = client.importFiles([], onProgress);
+    const scan = client.scanPii();
+    const analysis = client.analyze("UTC");
+
+    worker.reply({ type: "error", requestId: worker.requestIdOf("scan-pii"), error: { code: "worker", message: "Invalid regular expression" } });
+    await expect(scan).rejects.toThrow(ArchiveWorkerError);
+    await expect(scan).rejects.toThrow("Invalid regular expression");
+
+    const importId = worker.requestIdOf("import");
+    worker.reply({ type: "import-progress", requestId: importId, progress: { phase: "parsing", fileName: "tweets.js", bytesRead: 1, totalBytes: 2, postsParsed: 0 } });
+    worker.reply({ type: "import-done", requestId: importId, result: imported });
+    await expect(archive.result).resolves.toBe(imported);
+    expect(onProgress).toHaveBeenCalledTimes(1);
+
+    const analytics = analyzePosts([], "UTC");
+    worker.reply({ type: "analyze-done", requestId: worker.requestIdOf("analyze"), result: analytics });
+    await expect(analysis).resolves.toBe(analytics);
+  });
+
+  it("rejects every pending request when the worker crashes", async () => {
+    const client = new ArchiveWorkerClient();
+    const archive = client.importFiles([], () => {});
+    const lookup = client.getTweets(["1"]);
+
+    FakeWorker.current.onerror?.({ message: "Out of memory" });
+    await expect(archive.result).rejects.toThrow("Out of memory");
+    await expect(lookup).rejects.toThrow("Out of memory");
+  });
+});
@@ -0,0 +1,139 @@
+import { ArchiveFilter, PreviewMode, ArchiveImport, ImportProgress, ImportErrorInfo, RetentionRule, RetentionResult, PiiScanResult, ArchiveTweet, ArchiveAnalytics } from "../types";
+import type { FilterResult } from "./postFilter";
+import type { ArchiveWorkerRequest, ArchiveWorkerResponse } from "../workers/archive.worker";
+
+export class ArchiveWorkerError extends Error {
+  constructor(readonly info: ImportErrorInfo) {
+    super(info.message);
+  }
+}
+
+interface Pending<T> {
+  resolve: (result: T) => void;
+  reject: (error: ArchiveWorkerError) => void;
+}
+
+interface PendingImport extends Pending<ArchiveImport> {
+  onProgress: (progress: ImportProgress) => void;
+}
+
+// Main-thread handle on the archive worker. The worker keeps its own copy of the post
+// set, replaced by each import, so callers must mirror every deletion through removePosts.
+export class ArchiveWorkerClient {
+  private readonly worker: Worker;
+  private nextRequestId = 1;
+  private readonly imports = new Map<number, PendingImport>();
+  private readonly filters = new Map<number, Pending<FilterResult>>();
+  private readonly retentions = new Map<number, Pending<RetentionResult>>();
+  private readonly scans = new Map<number, Pending<PiiScanResult>>();
+  private readonly analyses = new Map<number, Pending<ArchiveAnalytics>>();
+  private readonly tweetLookups = new Map<number, Pending<Map<string, ArchiveTweet>>>();
+
+  constructor() {
+    this.worker = new Worker(new URL('../workers/archive.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<ArchiveWorkerResponse>) => this.handle(event.data);
+    this.worker.onerror = event => {
+      const error = new ArchiveWorkerError({ code: 'worker', message: event.message || 'Archive worker crashed' });
+      [this.imports, this.filters, this.retentions, this.scans, this.analyses, this.tweetLookups].forEach((pending: Map<number, Pending<unknown>>) => {
+        pending.forEach(request => request.reject(error));
+        pending.clear();
+      });
+    };
+  }
+
+  private request<T>(pending: Map<number, Pending<T>>, message: (requestId: number) => ArchiveWorkerRequest): Promise<T> {
+    const requestId = this.nextRequestId++;
+    const result = new Promise<T>((resolve, reject) => pending.set(requestId, { resolve, reject }));
+    this.send(message(requestId));
+    return result;
+  }
+
+  private settle<T>(pending: Map<number, Pending<T>>, requestId: number, result: T) {
+    pending.get(requestId)?.resolve(result);
+    pending.delete(requestId);
+  }
+
+  // Request ids are unique across kinds, so at most one map holds the failed request.
+  private fail(requestId: number, error: ArchiveWorkerError) {
+    [this.filters, this.retentions, this.scans, this.analyses, this.tweetLookups].forEach((pending: Map<number, Pending<unknown>>) => {
+      pending.get(requestId)?.reject(error);
+      pending.delete(requestId);
+    });
+  }
+
+  private send(message: ArchiveWorkerRequest) {
+    this.worker.postMessage(message);
+  }
+
+  private handle(message: ArchiveWorkerResponse) {
+    switch (message.type) {
+      case 'import-progress':
+        this.imports.get(message.requestId)?.onProgress(message.progress);
+        break;
+      case 'import-done':
+        this.imports.get(message.requestId)?.resolve(message.result);
+        this.imports.delete(message.requestId);
+        break;
+      case 'import-error':
+        this.imports.get(message.requestId)?.reject(new ArchiveWorkerError(message.error));
+        this.imports.delete(message.requestId);
+        break;
+      case 'filter-done':
+        this.settle(this.filters, message.requestId, message.result);
+        break;
+      case 'retention-done':
+        this.settle(this.retentions, message.requestId, message.result);
+        break;
+      case 'pii-done':
+        this.settle(this.scans, message.requestId, message.result);
+        break;
+      case 'analyze-done':
+        this.settle(this.analyses, message.requestId, message.result);
+        break;
+      case 'tweets-done':
+        this.settle(this.tweetLookups, message.requestId, message.tweets);
+        break;
+      case 'error':
+        this.fail(message.requestId, new ArchiveWorkerError(message.error));
+        break;
+    }
+  }
+
+  importFiles(files: File[], onProgress: (progress: ImportProgress) => void): { result: Promise<ArchiveImport>; cancel: () => void } {
+    const requestId = this.nextRequestId++;
+    const result = new Promise<ArchiveImport>((resolve, reject) => {
+      this.imports.set(requestId, { resolve, reject, onProgress });
+    });
+    this.send({ type: 'import', requestId, files });
+    return { result, cancel: () => this.send({ type: 'cancel-import', requestId }) };
+  }
+
+  filter(filters: ArchiveFilter, previewMode: PreviewMode): Promise<FilterResult> {
+    return this.request(this.filters, requestId => ({ type: 'filter', requestId, filters, previewMode }));
+  }
+
+  evaluateRetention(rules: RetentionRule[], asOf: number, timeZone: string): Promise<RetentionResult> {
+    return this.request(this.retentions, requestId => ({ type: 'retention', requestId, rules, asOf, timeZone }));
+  }
+
+  scanPii(): Promise<PiiScanResult> {
+    return this.request(this.scans, requestId => ({ type: 'scan-pii', requestId }));
+  }
+
+  analyze(timeZone: string): Promise<ArchiveAnalytics> {
+    return this.request(this.analyses, requestId => ({ type: 'analyze', requestId, timeZone }));
+  }
+
+  // Original archive objects for the given posts; ids the worker has no object for are absent.
+  getTweets(ids: string[]): Promise<Map<string, ArchiveTweet>> {
+    return this.request(this.tweetLookups, requestId => ({ type: 'get-tweets', requestId, ids }));
+  }
+
+  removePosts(ids: string[]) {
+    this.send({ type: 'remove-posts', ids });
+  }
+
+  dispose() {
+    this.worker.terminate();
+  }
+}
@@ -0,0 +1,54 @@
+import { XPost, AuditResult } from "../types";
+import { openDb, requestToPromise, transactionDone, STORES } from "./db";
+
+// Audit results survive between sessions, keyed by post id, a hash of the text that was
+// audited and the provider's prompt/model version, so edited text or a new prompt misses.
+
+interface CachedAudit {
+  postId: string;
+  textHash: string;
+  version: string;
+  result: AuditResult;
+  auditedAt: number;
+}
+
+async function hashText(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+}
+
+export async function loadCachedAudits(posts: XPost[], version: string): Promise<Map<string, AuditResult>> {
+  const hashes = await Promise.all(posts.map(p => hashText(p.full_text)));
+  const db = await openDb();
+  const store = db.transaction(STORES.auditCache).objectStore(STORES.auditCache);
+  const records = await Promise.all(
+    posts.map((post, i) => requestToPromise<CachedAudit | undefined>(store.get([post.id, hashes[i], version])))
+  );
+
+  const results = new Map<string, AuditResult>();
+  records.forEach(record => record && results.set(record.postId, record.result));
+  return results;
+}
+
+export async function storeAudits(posts: XPost[], results: Map<string, AuditResult>, version: string): Promise<void> {
+  const audited = posts.filter(p => results.has(p.id));
+  if (audited.length === 0) return;
+  const hashes = await Promise.all(audited.map(p => hashText(p.full_text)));
+
+  const db = await openDb();
+  const tx = db.transaction(STORES.auditCache, "readwrite");
+  const store = tx.objectStore(STORES.auditCache);
+  const auditedAt = Date.now();
+  audited.forEach((post, i) => {
+    const record: CachedAudit = { postId: post.id, textHash: hashes[i], version, result: results.get(post.id)!, auditedAt };
+    store.put(record);
+  });
+  await transactionDone(tx);
+}
+
+export async function clearAuditCache(): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(STORES.auditCache, "readwrite");
+  tx.objectStore(STORES.auditCache).clear();
+  await transactionDone(tx);
+}
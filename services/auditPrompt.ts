@@ -0,0 +1,101 @@
+import { XPost, AuditResult, AuditItemError, AuditCategory, RiskLevel, AuditSentiment, FlaggedSpan } from "../types";
+
+// Prompt, schema and response validation shared by every LLM-backed audit provider.
+
+export class MalformedResponseError extends Error {}
+
+// Part of every provider's cache version; bump it whenever the prompt or schema changes.
+export const AUDIT_PROMPT_VERSION = 1;
+
+export const RISK_LEVELS: RiskLevel[] = ['Low', 'Medium', 'High'];
+export const AUDIT_SENTIMENTS: AuditSentiment[] = ['Positive', 'Neutral', 'Negative', 'Mixed'];
+export const AUDIT_CATEGORIES: AuditCategory[] = [
+  'profanity', 'political', 'harassment', 'hate-speech', 'personal-info',
+  'sexual', 'violence', 'outdated-opinion', 'spam', 'other'
+];
+
+export interface AuditBatchResult {
+  results: Map<string, AuditResult>;
+  errors: AuditItemError[];
+}
+
+export function buildAuditPrompt(batch: XPost[]): string {
+  return `Analyze these X (Twitter) posts (tweets, replies, or reposts) for potential controversy, sensitive content, or brand risk.
+    Return one audit result per post with:
+    - id: the post id
+    - reason: a short explanation
+    - riskLevel: exactly one of ${RISK_LEVELS.join(', ')}
+    - sentiment: exactly one of ${AUDIT_SENTIMENTS.join(', ')}
+    - categories: zero or more of ${AUDIT_CATEGORIES.join(', ')}
+    - confidence: a number from 0 to 1
+    - spans: the risky passages, each { text: an exact substring of the post, category }
+
+    Posts to analyze:
+    ${JSON.stringify(batch.map(r => ({ id: r.id, text: r.full_text, type: r.type })))}`;
+}
+
+function oneOf<T extends string>(value: unknown, allowed: T[], field: string): T {
+  if (!allowed.includes(value as T)) throw new Error(`${field} must be one of ${allowed.join(', ')}, got ${JSON.stringify(value)}`);
+  return value as T;
+}
+
+// Locates each quoted passage in the post so the UI can highlight it; a passage
+// that is not actually in the text means the model made it up.
+function locateSpans(value: unknown, text: string): FlaggedSpan[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new Error('spans must be a list');
+  return value.map((span: any, i) => {
+    if (typeof span?.text !== 'string' || !span.text) throw new Error(`spans[${i}].text must be a non-empty string`);
+    const start = text.indexOf(span.text);
+    if (start < 0) throw new Error(`spans[${i}].text "${span.text}" does not occur in the post`);
+    return { start, end: start + span.text.length, text: span.text, category: oneOf(span.category, AUDIT_CATEGORIES, `spans[${i}].category`) };
+  });
+}
+
+export function validateAuditItem(item: any, post: XPost): AuditResult {
+  if (typeof item.reason !== 'string' || !item.reason.trim()) throw new Error('reason must be a non-empty string');
+  if (!Array.isArray(item.categories)) throw new Error('categories must be a list');
+  const confidence = item.confidence;
+  if (typeof confidence !== 'number' || !(confidence >= 0 && confidence <= 1)) {
+    throw new Error(`confidence must be a number between 0 and 1, got ${JSON.stringify(confidence)}`);
+  }
+  return {
+    reason: item.reason.trim(),
+    riskLevel: oneOf(item.riskLevel, RISK_LEVELS, 'riskLevel'),
+    sentiment: oneOf(item.sentiment, AUDIT_SENTIMENTS, 'sentiment'),
+    categories: [...new Set<AuditCategory>(item.categories.map((c: unknown, i: number) => oneOf(c, AUDIT_CATEGORIES, `categories[${i}]`)))],
+    confidence,
+    spans: locateSpans(item.spans, post.full_text)
+  };
+}
+
+// Accepts a bare array or an object wrapping it, since JSON modes on OpenAI-compatible
+// servers can only return objects. Items that fail validation are reported, never defaulted.
+export function parseAuditResponse(text: string, batch: XPost[], source: string): AuditBatchResult {
+  let data: any;
+  try {
+    data = JSON.parse(text.trim());
+  } catch {
+    throw new MalformedResponseError(`${source} returned malformed JSON`);
+  }
+  if (!Array.isArray(data)) data = data?.results;
+  if (!Array.isArray(data)) throw new MalformedResponseError(`${source} response was not a list of results`);
+
+  const posts = new Map(batch.map(p => [p.id, p]));
+  const results = new Map<string, AuditResult>();
+  const errors: AuditItemError[] = [];
+  data.forEach((item: any, i: number) => {
+    const postId = item?.id != null ? String(item.id) : null;
+    const post = postId ? posts.get(postId) : undefined;
+    if (!post) {
+      errors.push({ postId, message: `${source} item ${i} has ${postId ? `unknown id ${postId}` : 'no id'}` });
+      return;
+    }
+    try {
+      results.set(post.id, validateAuditItem(item, post));
+    } catch (e) {
+      errors.push({ postId: post.id, message: `${source}: ${(e as Error).message}` });
+    }
+  });
+  return { results, errors };
+}
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AuditBatchResult } from "./auditPrompt";
+import {
+  AuditConfigError,
+  AuditProvider,
+  auditPosts,
+  AuditRequestError,
+  createAuditProvider,
+  DEFAULT_AUDIT_SETTINGS,
+  loadAuditSettings,
+  RuleBasedAuditProvider,
+  saveAuditSettings
+} from "./auditProvider";
+import { makePost } from "./testUtils";
+
+class MemoryStorage {
+  readonly items = new Map<string, string>();
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("RuleBasedAuditProvider", () => {
+  it("scores posts offline and deterministically", async () => {
+    const posts = [
+      makePost({ id: "1", full_text: "Call me at +1 415 555 0132, you idiot" }),
+      makePost({ id: "2", full_text: "Who are you voting for in the election?" }),
+      makePost({ id: "3", full_text: "Love this, thanks!" })
+    ];
+    const provider = createAuditProvider({ ...DEFAULT_AUDIT_SETTINGS, provider: "rule-based" });
+    expect(provider).toBeInstanceOf(RuleBasedAuditProvider);
+
+    const { results, errors } = await provider.auditBatch(posts);
+    expect(errors).toEqual([]);
+    expect(results.get("1")).toMatchObject({ riskLevel: "High", categories: ["personal-info", "harassment"] });
+    expect(results.get("1")!.spans!.map(s => s.text)).toEqual(["+1 415 555 0132", "idiot"]);
+    expect(results.get("2")).toMatchObject({ riskLevel: "Medium", categories: ["political"], sentiment: "Neutral" });
+    expect(results.get("3")).toMatchObject({ riskLevel: "Low", categories: [], sentiment: "Positive", reason: "No risky patterns matched." });
+
+    expect(await provider.auditBatch(posts)).toEqual({ results, errors });
+  });
+
+  it("runs a whole audit without network access", async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal("fetch", fetch);
+    const posts = Array.from({ length: 5 }, (_, i) => makePost({ id: String(i), full_text: "wtf" }));
+    const onBatch = vi.fn();
+    const progress = await auditPosts(new RuleBasedAuditProvider(), posts, { batchSize: 2, useCache: false, onBatch });
+    expect(progress).toMatchObject({ total: 5, audited: 5, failed: 0 });
+    expect(onBatch).toHaveBeenCalledTimes(3);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe("auditPosts retries", () => {
+  const posts = Array.from({ length: 4 }, (_, i) => makePost({ id: String(i) }));
+
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  const failing = (error: Error) => {
+    const auditBatch = vi.fn(async (): Promise<AuditBatchResult> => { throw error; });
+    const provider: AuditProvider = { kind: "openai-compatible", version: "test", auditBatch };
+    return { provider, auditBatch };
+  };
+
+  it("retries server errors up to the attempt limit", async () => {
+    const { provider, auditBatch } = failing(new AuditRequestError("HTTP 503", 503));
+    const progress = await auditPosts(provider, posts, { batchSize: 2, concurrency: 1, useCache: false });
+    expect(auditBatch).toHaveBeenCalledTimes(6);
+    expect(progress).toMatchObject({ audited: 0, failed: 4, lastError: "HTTP 503" });
+  });
+
+  it("stops the run on a rejected key instead of retrying every batch", async () => {
+    const { provider, auditBatch } = failing(new AuditRequestError("HTTP 401", 401));
+    const progress = await auditPosts(provider, posts, { batchSize: 2, concurrency: 1, useCache: false });
+    expect(auditBatch).toHaveBeenCalledTimes(1);
+    expect(progress).toMatchObject({ audited: 0, failed: 4, lastError: "HTTP 401" });
+  });
+
+  it("does not retry configuration errors", async () => {
+    const { provider, auditBatch } = failing(new AuditConfigError("Enter a key"));
+    await auditPosts(provider, posts, { batchSize: 4, useCache: false });
+    expect(auditBatch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("audit settings storage", () => {
+  let local: MemoryStorage;
+  let session: MemoryStorage;
+
+  beforeEach(() => {
+    local = new MemoryStorage();
+    session = new MemoryStorage();
+    vi.stubGlobal("localStorage", local);
+    vi.stubGlobal("sessionStorage", session);
+  });
+
+  it("keeps API keys out of local storage", () => {
+    const settings = { ...DEFAULT_AUDIT_SETTINGS, gemini: { apiKey: "AIza-secret", model: "gemini-x" }, openai: { ...DEFAULT_AUDIT_SETTINGS.openai, apiKey: "sk-secret" } };
+    saveAuditSettings(settings);
+    expect([...local.items.values()].join()).not.toContain("secret");
+    expect(loadAuditSettings()).toEqual(settings);
+
+    // A new tab starts without the keys but with the other settings.
+    vi.stubGlobal("sessionStorage", new MemoryStorage());
+    expect(loadAuditSettings().gemini).toEqual({ apiKey: "", model: "gemini-x" });
+  });
+
+  it("moves keys saved by earlier versions out of local storage", () => {
+    local.setItem("x-purge:audit-settings", JSON.stringify({ ...DEFAULT_AUDIT_SETTINGS, gemini: { apiKey: "AIza-old", model: "gemini-x" } }));
+    expect(loadAuditSettings().gemini.apiKey).toBe("AIza-old");
+    expect(local.getItem("x-purge:audit-settings")).not.toContain("AIza-old");
+    expect(session.getItem("x-purge:audit-keys")).toContain("AIza-old");
+  });
+});
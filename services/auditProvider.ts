@@ -0,0 +1,259 @@
+import { XPost, AuditResult, AuditProgress, AuditProviderKind, AuditSettings, AuditItemError, AuditCategory, FlaggedSpan, RiskLevel } from "../types";
+import { ApiError } from "@google/genai";
+import { GeminiAuditProvider, DEFAULT_GEMINI_MODEL } from "./geminiService";
+import { buildAuditPrompt, parseAuditResponse, MalformedResponseError, AuditBatchResult, RISK_LEVELS, AUDIT_PROMPT_VERSION } from "./auditPrompt";
+import { loadCachedAudits, storeAudits } from "./auditCache";
+
+const SETTINGS_KEY = "x-purge:audit-settings";
+// API keys are kept apart in session storage: they survive a reload, not closing the tab.
+const KEYS_KEY = "x-purge:audit-keys";
+
+export interface AuditProvider {
+  readonly kind: AuditProviderKind;
+  // Identifies the model and prompt; cached results are only reused for the same version.
+  readonly version: string;
+  auditBatch(batch: XPost[], signal?: AbortSignal): Promise<AuditBatchResult>;
+}
+
+export const AUDIT_PROVIDERS: { kind: AuditProviderKind; label: string; description: string }[] = [
+  { kind: 'gemini', label: 'Gemini', description: "Posts are sent to Google's Gemini API." },
+  { kind: 'openai-compatible', label: 'OpenAI API', description: 'Posts go to the server below. Point it at a local llama.cpp or Ollama instance to keep them on this machine.' },
+  { kind: 'rule-based', label: 'Rule-based', description: 'Offline keyword and pattern scoring. Nothing leaves the browser.' }
+];
+
+export const DEFAULT_AUDIT_SETTINGS: AuditSettings = {
+  provider: 'gemini',
+  batchSize: 50,
+  concurrency: 2,
+  gemini: { apiKey: '', model: DEFAULT_GEMINI_MODEL },
+  openai: { baseUrl: 'http://localhost:11434/v1', apiKey: '', model: 'llama3.1' }
+};
+
+export class AuditConfigError extends Error {}
+
+// A provider answered with an HTTP error status.
+export class AuditRequestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+// Only a busy or failing server is worth asking again; a rejected key or request fails
+// the same way every time.
+export function isRetryableAuditError(e: unknown): boolean {
+  if (e instanceof AuditConfigError) return false;
+  const status = e instanceof AuditRequestError || e instanceof ApiError ? e.status : undefined;
+  return status === undefined || status === 408 || status === 429 || status >= 500;
+}
+
+// Speaks the /chat/completions dialect shared by OpenAI, llama.cpp, Ollama, vLLM and others.
+export class OpenAICompatibleAuditProvider implements AuditProvider {
+  readonly kind: AuditProviderKind = 'openai-compatible';
+
+  constructor(private readonly baseUrl: string, private readonly model: string, private readonly apiKey?: string) {}
+
+  get version(): string {
+    return `openai/${this.baseUrl}/${this.model}/prompt-${AUDIT_PROMPT_VERSION}`;
+  }
+
+  async auditBatch(batch: XPost[], signal?: AbortSignal): Promise<AuditBatchResult> {
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: "POST",
+      signal,
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: this.model,
+        temperature: 0,
+        response_format: { type: "json_object" },
+        messages: [
+          {
+            role: "system",
+            content: 'Reply with a JSON object {"results": [{"id", "reason", "riskLevel", "sentiment", "categories", "confidence", "spans": [{"text", "category"}]}]} and nothing else.'
+          },
+          { role: "user", content: buildAuditPrompt(batch) }
+        ]
+      })
+    });
+    if (!response.ok) throw new AuditRequestError(`${this.baseUrl} responded with HTTP ${response.status}`, response.status);
+
+    const body = await response.json().catch(() => null);
+    const content = body?.choices?.[0]?.message?.content;
+    if (typeof content !== "string") throw new MalformedResponseError(`${this.baseUrl} returned no message content`);
+    return parseAuditResponse(content, batch, this.model);
+  }
+}
+
+const RULE_SETS: { category: AuditCategory; level: RiskLevel; pattern: RegExp }[] = [
+  { category: 'personal-info', level: 'High', pattern: /[\w.+-]+@[\w-]+\.[\w.]+|\+?\d[\d\s().-]{8,}\d/g },
+  { category: 'harassment', level: 'High', pattern: /\b(idiot|moron|loser|pathetic|shut up|kill yourself|hate you)\b/gi },
+  { category: 'profanity', level: 'Medium', pattern: /\b(fuck\w*|shit\w*|bitch\w*|asshole|damn|crap|wtf)\b/gi },
+  { category: 'political', level: 'Medium', pattern: /\b(election|democrats?|republicans?|liberals?|conservatives?|maga|vote|senate|congress|president)\b/gi }
+];
+const NEGATIVE = /\b(hate|awful|terrible|worst|angry|sucks?|disgusting|ugh)\b/gi;
+const POSITIVE = /\b(love|great|awesome|thanks?|happy|amazing|congrats|excited)\b/gi;
+
+// Bump when RULE_SETS change so cached rule-based results are recomputed.
+const RULES_VERSION = 1;
+
+// Deterministic keyword/pattern scoring. Runs entirely offline and always gives the same answer.
+export class RuleBasedAuditProvider implements AuditProvider {
+  readonly kind: AuditProviderKind = 'rule-based';
+  readonly version = `rule-based/rules-${RULES_VERSION}`;
+
+  async auditBatch(batch: XPost[]): Promise<AuditBatchResult> {
+    return { results: new Map(batch.map(post => [post.id, this.auditPost(post)])), errors: [] };
+  }
+
+  private auditPost(post: XPost): AuditResult {
+    let riskLevel: RiskLevel = 'Low';
+    const findings: string[] = [];
+    const spans: FlaggedSpan[] = [];
+    RULE_SETS.forEach(rule => {
+      const matches = [...post.full_text.matchAll(rule.pattern)];
+      if (matches.length === 0) return;
+      matches.forEach(m => spans.push({ start: m.index!, end: m.index! + m[0].length, text: m[0], category: rule.category }));
+      const hits = [...new Set(matches.map(m => m[0].toLowerCase()))];
+      findings.push(`${rule.category} (${hits.slice(0, 3).join(', ')})`);
+      if (RISK_LEVELS.indexOf(rule.level) > RISK_LEVELS.indexOf(riskLevel)) riskLevel = rule.level;
+    });
+
+    const negative = (post.full_text.match(NEGATIVE) || []).length;
+    const positive = (post.full_text.match(POSITIVE) || []).length;
+    return {
+      reason: findings.length > 0 ? `Matched ${findings.join('; ')}.` : 'No risky patterns matched.',
+      riskLevel,
+      sentiment: negative > positive ? (positive > 0 ? 'Mixed' : 'Negative') : positive > negative ? 'Positive' : 'Neutral',
+      categories: [...new Set(spans.map(s => s.category))],
+      // Pattern hits are certain about what matched but not about intent.
+      confidence: spans.length > 0 ? 0.6 : 0.5,
+      spans: spans.sort((a, b) => a.start - b.start)
+    };
+  }
+}
+
+export function createAuditProvider(settings: AuditSettings): AuditProvider {
+  switch (settings.provider) {
+    case 'gemini': {
+      // The key is only ever entered at runtime; nothing from the build environment is bundled.
+      if (!settings.gemini.apiKey) throw new AuditConfigError("Enter a Gemini API key in the AI Audit settings.");
+      return new GeminiAuditProvider(settings.gemini.apiKey, settings.gemini.model || DEFAULT_GEMINI_MODEL);
+    }
+    case 'openai-compatible':
+      if (!settings.openai.baseUrl) throw new AuditConfigError("Enter the base URL of the OpenAI-compatible server.");
+      return new OpenAICompatibleAuditProvider(settings.openai.baseUrl, settings.openai.model, settings.openai.apiKey || undefined);
+    default:
+      return new RuleBasedAuditProvider();
+  }
+}
+
+export function loadAuditSettings(): AuditSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    const keys = JSON.parse(sessionStorage.getItem(KEYS_KEY) || 'null');
+    if (!saved && !keys) return DEFAULT_AUDIT_SETTINGS;
+    const settings: AuditSettings = {
+      ...DEFAULT_AUDIT_SETTINGS,
+      ...saved,
+      gemini: { ...DEFAULT_AUDIT_SETTINGS.gemini, ...saved?.gemini, ...keys?.gemini },
+      openai: { ...DEFAULT_AUDIT_SETTINGS.openai, ...saved?.openai, ...keys?.openai }
+    };
+    // Earlier versions kept the keys in local storage; move them out.
+    if (saved?.gemini?.apiKey || saved?.openai?.apiKey) saveAuditSettings(settings);
+    return settings;
+  } catch {
+    return DEFAULT_AUDIT_SETTINGS;
+  }
+}
+
+export function saveAuditSettings(settings: AuditSettings) {
+  const { gemini: { apiKey: geminiKey, ...gemini }, openai: { apiKey: openaiKey, ...openai } } = settings;
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify({ ...settings, gemini, openai }));
+  sessionStorage.setItem(KEYS_KEY, JSON.stringify({ gemini: { apiKey: geminiKey }, openai: { apiKey: openaiKey } }));
+}
+
+export interface AuditOptions {
+  batchSize?: number;
+  concurrency?: number;
+  // Attempts per batch; a malformed or failed response is retried until this is reached.
+  // Errors that retrying cannot fix, such as a rejected key, end the whole run instead.
+  maxAttempts?: number;
+  signal?: AbortSignal;
+  // Reuse and store results in the local audit cache.
+  useCache?: boolean;
+  onCached?: (results: Map<string, AuditResult>, progress: AuditProgress) => void;
+  onBatch?: (results: Map<string, AuditResult>, progress: AuditProgress, errors: AuditItemError[]) => void;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+// Audits every post in fixed-size batches with a bounded number of requests in flight.
+// Results are handed to onBatch as each batch lands; aborting stops scheduling new
+// batches and resolves with the progress reached so far. A non-retryable error stops
+// the run too, and the posts it never reached count as failed.
+export async function auditPosts(provider: AuditProvider, posts: XPost[], options: AuditOptions = {}): Promise<AuditProgress> {
+  const batchSize = Math.max(1, options.batchSize ?? DEFAULT_AUDIT_SETTINGS.batchSize);
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_AUDIT_SETTINGS.concurrency);
+  const maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+  const { signal, onBatch, onCached, useCache = true } = options;
+
+  const progress: AuditProgress = { total: posts.length, audited: 0, cached: 0, failed: 0, invalid: 0, cancelled: false, lastError: null };
+
+  // A broken cache only costs money, never correctness, so failures fall back to a full run.
+  let pending = posts;
+  if (useCache) {
+    try {
+      const cached = await loadCachedAudits(posts, provider.version);
+      if (cached.size > 0) {
+        progress.audited += cached.size;
+        progress.cached = cached.size;
+        pending = posts.filter(p => !cached.has(p.id));
+        onCached?.(cached, { ...progress });
+      }
+    } catch (e) {
+      console.warn("Audit cache unavailable", e);
+    }
+  }
+
+  const batches: XPost[][] = [];
+  for (let i = 0; i < pending.length; i += batchSize) batches.push(pending.slice(i, i + batchSize));
+
+  let next = 0;
+  let fatal = false;
+  const runWorker = async () => {
+    while (next < batches.length && !signal?.aborted && !fatal) {
+      const batch = batches[next++];
+      let outcome: AuditBatchResult | null = null;
+
+      for (let attempt = 1; attempt <= maxAttempts && !outcome && !signal?.aborted && !fatal; attempt++) {
+        try {
+          outcome = await provider.auditBatch(batch, signal);
+        } catch (e) {
+          if (signal?.aborted) break;
+          progress.lastError = e instanceof Error ? e.message : String(e);
+          console.warn(`Audit batch failed (attempt ${attempt}/${maxAttempts})`, e);
+          if (!isRetryableAuditError(e)) fatal = true;
+        }
+      }
+      if (signal?.aborted) break;
+
+      // Invalid items are not retried: the rest of the batch is usable and a retry would
+      // pay for every post again.
+      const results = outcome?.results ?? new Map<string, AuditResult>();
+      const errors = outcome?.errors ?? [];
+      progress.audited += results.size;
+      progress.failed += batch.length - results.size;
+      progress.invalid += new Set(errors.filter(e => e.postId && !results.has(e.postId)).map(e => e.postId)).size;
+      if (errors.length > 0) progress.lastError = errors[errors.length - 1].message;
+      if (useCache) storeAudits(batch, results, provider.version).catch(e => console.warn("Failed to cache audit results", e));
+      onBatch?.(results, { ...progress }, errors);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, batches.length) }, runWorker));
+  if (fatal) progress.failed += batches.slice(next).reduce((total, batch) => total + batch.length, 0);
+  progress.cancelled = !!signal?.aborted;
+  return progress;
+}
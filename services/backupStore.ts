@@ -0,0 +1,83 @@
+import { XPost, ArchiveTweet, BackupRecord, DeleterMode } from "../types";
+import { openDb, requestToPromise, transactionDone, STORES } from "./db";
+
+// Every post is copied here before a deletion request goes out. The store only grows;
+// it is cleared explicitly by the user, never by a finished or discarded purge.
+
+// Rebuilds an archive-shaped tweet from the normalized post when the original object
+// is gone (e.g. a purge resumed from a job saved before backups existed).
+export function toArchiveTweet(post: XPost): ArchiveTweet {
+  const media = post.media.map(m => ({ id_str: m.id, type: m.type, media_url_https: m.media_url, expanded_url: m.expanded_url }));
+  return {
+    id_str: post.id,
+    id: post.id,
+    created_at: post.created_at,
+    full_text: post.full_text,
+    in_reply_to_status_id_str: post.reply_to_status_id,
+    in_reply_to_user_id_str: post.reply_to_user_id,
+    in_reply_to_screen_name: post.reply_to_screen_name,
+    quoted_status_id_str: post.quoted_status_id,
+    favorite_count: String(post.favorite_count),
+    retweet_count: String(post.retweet_count),
+    lang: post.lang ?? 'und',
+    source: post.source,
+    entities: {
+      hashtags: post.hashtags.map(text => ({ text })),
+      user_mentions: post.mentions.map(m => ({ id_str: m.id, screen_name: m.screen_name })),
+      urls: post.urls,
+      ...(media.length > 0 ? { media } : {})
+    },
+    ...(media.length > 0 ? { extended_entities: { media } } : {})
+  };
+}
+
+export async function backupPost(post: XPost, tweet: ArchiveTweet | undefined, jobId: string | null, deleterMode: DeleterMode): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(STORES.backups, "readwrite");
+  const store = tx.objectStore(STORES.backups);
+  const existing = await requestToPromise<BackupRecord | undefined>(store.get(post.id));
+  // Without the original object, keep whatever an earlier attempt stored rather than a reconstruction.
+  const record: BackupRecord = {
+    postId: post.id,
+    tweet: tweet ?? existing?.tweet ?? toArchiveTweet(post),
+    reconstructed: tweet ? false : existing ? existing.reconstructed : true,
+    jobId,
+    deleterMode,
+    backedUpAt: Date.now(),
+    deletedAt: null
+  };
+  store.put(record);
+  await transactionDone(tx);
+}
+
+export async function markBackupDeleted(postId: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(STORES.backups, "readwrite");
+  const store = tx.objectStore(STORES.backups);
+  const record = await requestToPromise<BackupRecord | undefined>(store.get(postId));
+  if (record) store.put({ ...record, deletedAt: Date.now() });
+  await transactionDone(tx);
+}
+
+export async function loadBackups(): Promise<BackupRecord[]> {
+  const db = await openDb();
+  return requestToPromise<BackupRecord[]>(db.transaction(STORES.backups).objectStore(STORES.backups).getAll());
+}
+
+export async function countBackups(): Promise<number> {
+  const db = await openDb();
+  return requestToPromise<number>(db.transaction(STORES.backups).objectStore(STORES.backups).count());
+}
+
+export async function clearBackups(): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(STORES.backups, "readwrite");
+  tx.objectStore(STORES.backups).clear();
+  await transactionDone(tx);
+}
+
+// Same layout as the archive's own data/tweets.js, so the file can be imported back.
+export function backupsToTweetsJs(records: BackupRecord[]): string {
+  const sorted = [...records].sort((a, b) => a.postId.length - b.postId.length || a.postId.localeCompare(b.postId));
+  return `window.YTD.tweets.part0 = ${JSON.stringify(sorted.map(r => ({ tweet: r.tweet })), null, 2)}\n`;
+}
@@ -0,0 +1,65 @@
+const DB_NAME = "x-purge";
+const DB_VERSION = 4;
+
+export const STORES = {
+  purgeJobs: "purgeJobs",
+  purgeItems: "purgeItems",
+  auditCache: "auditCache",
+  backups: "backups",
+  purgeRuns: "purgeRuns",
+  journal: "journal"
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.purgeJobs)) {
+          db.createObjectStore(STORES.purgeJobs, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(STORES.purgeItems)) {
+          const items = db.createObjectStore(STORES.purgeItems, { keyPath: ["jobId", "postId"] });
+          items.createIndex("jobId", "jobId");
+        }
+        if (!db.objectStoreNames.contains(STORES.auditCache)) {
+          db.createObjectStore(STORES.auditCache, { keyPath: ["postId", "textHash", "version"] });
+        }
+        if (!db.objectStoreNames.contains(STORES.backups)) {
+          db.createObjectStore(STORES.backups, { keyPath: "postId" });
+        }
+        if (!db.objectStoreNames.contains(STORES.purgeRuns)) {
+          db.createObjectStore(STORES.purgeRuns, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(STORES.journal)) {
+          const journal = db.createObjectStore(STORES.journal, { autoIncrement: true });
+          journal.createIndex("runId", "runId");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
@@ -0,0 +1,48 @@
+import { XPost, AuditResult, FeedSort, PostType } from "../types";
+import { RISK_LEVELS } from "./auditPrompt";
+
+// Ordering and counts for the post feed. Archives run to tens of thousands of posts,
+// so everything here is a single pass (plus one sort) meant to be memoized by the caller.
+
+const FEED_SORT_KEY = "x-purge:feed-sort";
+
+export const FEED_SORTS: { sort: FeedSort; label: string }[] = [
+  { sort: 'newest', label: 'Newest' },
+  { sort: 'oldest', label: 'Oldest' },
+  { sort: 'most-liked', label: 'Most liked' },
+  { sort: 'most-reposted', label: 'Most reposted' },
+  { sort: 'highest-risk', label: 'Highest risk' }
+];
+
+export function loadFeedSort(): FeedSort {
+  const saved = localStorage.getItem(FEED_SORT_KEY);
+  return FEED_SORTS.some(s => s.sort === saved) ? saved as FeedSort : 'newest';
+}
+
+export function saveFeedSort(sort: FeedSort) {
+  localStorage.setItem(FEED_SORT_KEY, sort);
+}
+
+// Unaudited posts rank below Low risk.
+const riskRank = (audit: AuditResult | undefined) => (audit ? RISK_LEVELS.indexOf(audit.riskLevel) + 1 : 0);
+
+// Returns a new array; ties fall back to newest first, then id, so the order is stable
+// across re-sorts while audit results stream in.
+export function sortPosts(posts: XPost[], sort: FeedSort, audits: Map<string, AuditResult>): XPost[] {
+  const keyed = posts.map(post => ({ post, time: new Date(post.created_at).getTime() }));
+  const primary: (a: typeof keyed[number], b: typeof keyed[number]) => number = {
+    newest: () => 0,
+    oldest: (a, b) => a.time - b.time,
+    'most-liked': (a, b) => b.post.favorite_count - a.post.favorite_count,
+    'most-reposted': (a, b) => b.post.retweet_count - a.post.retweet_count,
+    'highest-risk': (a, b) => riskRank(audits.get(b.post.id)) - riskRank(audits.get(a.post.id))
+  }[sort];
+  keyed.sort((a, b) => primary(a, b) || b.time - a.time || a.post.id.localeCompare(b.post.id));
+  return keyed.map(k => k.post);
+}
+
+export function countByType(posts: XPost[]): Record<PostType, number> {
+  const counts: Record<PostType, number> = { tweet: 0, reply: 0, 'self-thread': 0, quote: 0, repost: 0, like: 0 };
+  posts.forEach(post => counts[post.type]++);
+  return counts;
+}
@@ -1,59 +1,64 @@
-
 import { GoogleGenAI, Type } from "@google/genai";
-import { XPost, AuditResult } from "../types";
+import { XPost, AuditProviderKind } from "../types";
+import type { AuditProvider } from "./auditProvider";
+import { buildAuditPrompt, parseAuditResponse, AuditBatchResult, RISK_LEVELS, AUDIT_SENTIMENTS, AUDIT_CATEGORIES, AUDIT_PROMPT_VERSION } from "./auditPrompt";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-3-flash-preview";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export class GeminiAuditProvider implements AuditProvider {
+  readonly kind: AuditProviderKind = 'gemini';
+  private readonly ai: GoogleGenAI;
 
-export async function auditPosts(posts: XPost[]): Promise<Map<string, AuditResult>> {
-  const results = new Map<string, AuditResult>();
-  
-  if (posts.length === 0) return results;
+  constructor(apiKey: string, private readonly model: string = DEFAULT_GEMINI_MODEL) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
 
-  // We audit a sample or process in batches. For demo, we take the first 50.
-  const sample = posts.slice(0, 50);
+  get version(): string {
+    return `gemini/${this.model}/prompt-${AUDIT_PROMPT_VERSION}`;
+  }
 
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: `Analyze these X (Twitter) posts (tweets, replies, or reposts) for potential controversy, sensitive content, or brand risk. 
-    Return a list of audit results, each including the post id.
-    
-    Posts to analyze:
-    ${JSON.stringify(sample.map(r => ({ id: r.id, text: r.full_text, type: r.type })))}`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            id: { type: Type.STRING, description: "The post ID" },
-            reason: { type: Type.STRING, description: "Reason for the audit result" },
-            riskLevel: { type: Type.STRING, description: "Risk level of the content" },
-            sentiment: { type: Type.STRING, description: "Sentiment analysis" }
-          },
-          propertyOrdering: ["id", "reason", "riskLevel", "sentiment"]
+  async auditBatch(batch: XPost[], signal?: AbortSignal): Promise<AuditBatchResult> {
+    const response = await this.ai.models.generateContent({
+      model: this.model,
+      contents: buildAuditPrompt(batch),
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              id: { type: Type.STRING, description: "The post ID" },
+              reason: { type: Type.STRING, description: "Reason for the audit result" },
+              riskLevel: { type: Type.STRING, format: "enum", enum: RISK_LEVELS, description: "Risk level of the content" },
+              sentiment: { type: Type.STRING, format: "enum", enum: AUDIT_SENTIMENTS, description: "Sentiment analysis" },
+              categories: {
+                type: Type.ARRAY,
+                items: { type: Type.STRING, format: "enum", enum: AUDIT_CATEGORIES },
+                description: "Risk categories that apply"
+              },
+              confidence: { type: Type.NUMBER, minimum: 0, maximum: 1, description: "Confidence in the risk level" },
+              spans: {
+                type: Type.ARRAY,
+                description: "Risky passages quoted exactly from the post",
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    text: { type: Type.STRING },
+                    category: { type: Type.STRING, format: "enum", enum: AUDIT_CATEGORIES }
+                  },
+                  required: ["text", "category"]
+                }
+              }
+            },
+            required: ["id", "reason", "riskLevel", "sentiment", "categories", "confidence"],
+            propertyOrdering: ["id", "reason", "riskLevel", "sentiment", "categories", "confidence", "spans"]
+          }
         }
       }
-    }
-  });
+    });
 
-  try {
-    const text = response.text.trim();
-    const data = JSON.parse(text);
-    if (Array.isArray(data)) {
-      data.forEach((audit: any) => {
-        if (audit.id) {
-          results.set(audit.id, {
-            reason: audit.reason || 'N/A',
-            riskLevel: audit.riskLevel || 'Low',
-            sentiment: audit.sentiment || 'Neutral'
-          });
-        }
-      });
-    }
-  } catch (e) {
-    console.error("Failed to parse Gemini response", e);
+    return parseAuditResponse(response.text || '', batch, "Gemini");
   }
-
-  return results;
 }
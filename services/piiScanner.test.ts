@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { bech32Valid, ibanValid, luhnValid, scanPost, scanPosts } from "./piiScanner";
+import { makePost } from "./testUtils";
+
+const labelsOf = (text: string) => scanPost(makePost({ full_text: text }))?.spans?.map(s => s.label) ?? [];
+
+describe("checksum validators", () => {
+  it("checks card numbers with Luhn", () => {
+    expect(luhnValid("4111 1111 1111 1111")).toBe(true);
+    expect(luhnValid("4111 1111 1111 1112")).toBe(false);
+  });
+
+  it("checks IBANs with mod 97", () => {
+    expect(ibanValid("GB82 WEST 1234 5698 7654 32")).toBe(true);
+    expect(ibanValid("GB82 WEST 1234 5698 7654 33")).toBe(false);
+  });
+
+  it("checks bech32 and bech32m addresses", () => {
+    expect(bech32Valid("bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4")).toBe(true);
+    expect(bech32Valid("bc1p5d7rjq7g6rdk2yhzks9smlaqtedr4dekq08ge8ztwac72sfr9rusxg3297")).toBe(true);
+    expect(bech32Valid("bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t5")).toBe(false);
+  });
+});
+
+describe("scanPost", () => {
+  it("flags a valid card number but not a Luhn-failing one", () => {
+    expect(labelsOf("my card is 4111 1111 1111 1111 oops")).toEqual(["card number"]);
+    expect(labelsOf("my card is 4111 1111 1111 1112 oops")).toEqual([]);
+  });
+
+  it("ignores post ids in status links and bare snowflake ids", () => {
+    // 16 digits, Visa prefix, passes Luhn: only the link around it makes it harmless.
+    expect(luhnValid("4111111111111111")).toBe(true);
+    expect(labelsOf("look https://x.com/jack/status/4111111111111111")).toEqual([]);
+    expect(labelsOf("look x.com/jack/status/4111111111111111 lol")).toEqual([]);
+    expect(labelsOf("reply to 1790000000000000001")).toEqual([]);
+  });
+
+  it("flags a valid IBAN but not one failing its checksum", () => {
+    expect(labelsOf("Pay to GB82 WEST 1234 5698 7654 32 please")).toEqual(["IBAN"]);
+    expect(labelsOf("Pay to GB82 WEST 1234 5698 7654 33 please")).toEqual([]);
+  });
+
+  it("flags Bitcoin and Ethereum addresses", () => {
+    expect(labelsOf("tips: bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4")).toEqual(["Bitcoin address"]);
+    expect(labelsOf("tips: 0x52908400098527886E0F7030069857D2E4169EE7")).toEqual(["Ethereum address"]);
+    expect(labelsOf("tips: bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t5")).toEqual([]);
+  });
+
+  it("flags phone numbers with separators but not plain digit runs", () => {
+    expect(labelsOf("call +44 20 7946 0958 tonight")).toEqual(["phone number"]);
+    expect(labelsOf("call (415) 555-0132")).toEqual(["phone number"]);
+    expect(labelsOf("order 4155550132 shipped")).toEqual([]);
+  });
+
+  it("reports spans at their position in the text", () => {
+    const result = scanPost(makePost({ full_text: "mail me: jane@example.com" }))!;
+    expect(result.riskLevel).toBe("Medium");
+    expect(result.spans).toEqual([{ start: 9, end: 25, text: "jane@example.com", category: "personal-info", label: "email address" }]);
+  });
+});
+
+describe("scanPosts", () => {
+  it("counts each kind once per post", () => {
+    const { findings, counts } = scanPosts([
+      makePost({ id: "1", full_text: "a@example.com and b@example.com" }),
+      makePost({ id: "2", full_text: "c@example.com, SSN 123-45-6789" }),
+      makePost({ id: "3", full_text: "nothing here" })
+    ]);
+    expect([...findings.keys()]).toEqual(["1", "2"]);
+    expect(counts).toEqual({ email: 2, ssn: 1 });
+  });
+});
@@ -0,0 +1,203 @@
+import { XPost, AuditResult, FlaggedSpan, PiiKind, PiiScanResult, RiskLevel } from "../types";
+import { RISK_LEVELS } from "./auditPrompt";
+
+// Deterministic, offline detection of leaked personal data and secrets. Patterns cast
+// a wide net; checksum validators (Luhn, IBAN mod-97, bech32) weed out digit runs and
+// strings that merely look like card numbers or addresses.
+
+interface Detector {
+  kind: PiiKind;
+  label: string;
+  level: RiskLevel;
+  pattern: RegExp;
+  // Rejects matches that fit the pattern but fail a structural check.
+  validate?: (match: string) => boolean;
+  // Confidence for a match that passed validate; checksummed kinds are near certain.
+  confidence: number;
+  // Digit runs inside links are post and media ids, not personal data.
+  skipInUrls?: boolean;
+}
+
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+// Links with or without a scheme, such as x.com/jack/status/20.
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}\/\S*/gi;
+
+// Issuer prefixes of the card networks: Visa, Mastercard, Amex, Diners, JCB, Discover,
+// UnionPay and Maestro. X snowflake ids start with 1 and so never pass.
+const CARD_IIN = /^(?:4|5[0-9]|2[2-7]|3[04-9]|6)/;
+
+export function luhnValid(value: string): boolean {
+  const digits = digitsOf(value);
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return digits.length > 0 && sum % 10 === 0;
+}
+
+export function ibanValid(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const ch of rearranged) {
+    const value = ch >= 'A' ? String(ch.charCodeAt(0) - 55) : ch;
+    for (const digit of value) remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+}
+
+const BECH32_CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+const BECH32_GENERATORS = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+
+// BIP-173/350: accepts both bech32 (segwit v0) and bech32m (taproot) checksums.
+export function bech32Valid(value: string): boolean {
+  const address = value.toLowerCase();
+  const separator = address.lastIndexOf('1');
+  if (separator < 1 || address.length - separator < 7) return false;
+  const hrp = address.slice(0, separator);
+  let checksum = 1;
+  const step = (v: number) => {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ v;
+    BECH32_GENERATORS.forEach((g, i) => {
+      if ((top >>> i) & 1) checksum ^= g;
+    });
+  };
+  for (const ch of hrp) step(ch.charCodeAt(0) >>> 5);
+  step(0);
+  for (const ch of hrp) step(ch.charCodeAt(0) & 31);
+  for (const ch of address.slice(separator + 1)) {
+    const v = BECH32_CHARSET.indexOf(ch);
+    if (v < 0) return false;
+    step(v);
+  }
+  checksum >>>= 0;
+  return checksum === 1 || checksum === 0x2bc830a3;
+}
+
+// Earlier detectors win when matches overlap, so the most specific ones come first.
+const DETECTORS: Detector[] = [
+  { kind: 'private-key', label: 'private key', level: 'High', confidence: 0.99, pattern: /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY-----/g },
+  {
+    kind: 'api-key',
+    label: 'API key',
+    level: 'High',
+    confidence: 0.95,
+    pattern: /\b(?:AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36}|github_pat_[A-Za-z0-9_]{82}|AIza[0-9A-Za-z_-]{35}|xox[abprs]-[A-Za-z0-9-]{10,}|(?:sk|rk|pk)_(?:live|test)_[A-Za-z0-9]{16,}|sk-(?:proj-)?[A-Za-z0-9_-]{20,})\b/g
+  },
+  { kind: 'crypto-wallet', label: 'Bitcoin address', level: 'Medium', confidence: 0.95, pattern: /\bbc1[ac-hj-np-z02-9]{11,71}\b/gi, validate: bech32Valid },
+  { kind: 'crypto-wallet', label: 'Ethereum address', level: 'Medium', confidence: 0.9, pattern: /\b0x[a-fA-F0-9]{40}\b/g },
+  {
+    kind: 'crypto-wallet',
+    label: 'Bitcoin address',
+    level: 'Medium',
+    confidence: 0.7,
+    pattern: /\b[13][a-km-zA-HJ-NP-Z1-9]{25,34}\b/g,
+    // Base58 without a checksum check; insist on mixed case and digits to skip ordinary words.
+    validate: match => /[a-z]/.test(match) && /[A-Z]/.test(match) && /\d/.test(match.slice(1))
+  },
+  { kind: 'iban', label: 'IBAN', level: 'High', confidence: 0.95, pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g, validate: ibanValid },
+  {
+    kind: 'card-number',
+    label: 'card number',
+    level: 'High',
+    confidence: 0.95,
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    skipInUrls: true,
+    validate: match => CARD_IIN.test(digitsOf(match)) && luhnValid(match) && !/^(\d)\1+$/.test(digitsOf(match))
+  },
+  { kind: 'ssn', label: 'US social security number', level: 'High', confidence: 0.8, skipInUrls: true, pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g },
+  { kind: 'email', label: 'email address', level: 'Medium', confidence: 0.95, pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g },
+  {
+    kind: 'phone',
+    label: 'phone number',
+    level: 'Medium',
+    confidence: 0.75,
+    skipInUrls: true,
+    pattern: /(?<![\w+]|\d[\s.-])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?|\d{2,4}[\s.-])?\d{3,4}[\s.-]?\d{3,4}(?!\w|[\s.-]\d)/g,
+    validate: match => {
+      const digits = digitsOf(match);
+      // Plain digit runs are usually ids or amounts; a phone number has separators or a country code.
+      return digits.length >= 9 && digits.length <= 15 && /[\s.()+-]/.test(match);
+    }
+  },
+  {
+    kind: 'street-address',
+    label: 'street address',
+    level: 'Medium',
+    confidence: 0.7,
+    pattern: /\b\d{1,5}[A-Za-z]?\s+(?:[A-Z][a-z]+\.?\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Crescent|Close|Square|Sq)\b\.?/g
+  }
+];
+
+export const PII_KIND_LABELS: Record<PiiKind, string> = {
+  email: 'Email addresses',
+  phone: 'Phone numbers',
+  'street-address': 'Street addresses',
+  'card-number': 'Card numbers',
+  iban: 'Bank accounts (IBAN)',
+  ssn: 'Social security numbers',
+  'api-key': 'API keys',
+  'private-key': 'Private keys',
+  'crypto-wallet': 'Crypto wallets'
+};
+
+interface Hit {
+  detector: Detector;
+  span: FlaggedSpan;
+}
+
+function detect(text: string): Hit[] {
+  const hits: Hit[] = [];
+  const urls = [...text.matchAll(URL_PATTERN)].map(m => ({ start: m.index!, end: m.index! + m[0].length }));
+  DETECTORS.forEach(detector => {
+    for (const m of text.matchAll(detector.pattern)) {
+      const start = m.index!;
+      const end = start + m[0].length;
+      if (hits.some(h => h.span.start < end && start < h.span.end)) continue;
+      if (detector.skipInUrls && urls.some(u => u.start < end && start < u.end)) continue;
+      if (detector.validate && !detector.validate(m[0])) continue;
+      hits.push({ detector, span: { start, end, text: m[0], category: 'personal-info', label: detector.label } });
+    }
+  });
+  return hits.sort((a, b) => a.span.start - b.span.start);
+}
+
+function toAuditResult(hits: Hit[]): AuditResult {
+  const labels = [...new Set(hits.map(h => h.detector.label))];
+  return {
+    reason: `Looks like it contains: ${labels.join(', ')}.`,
+    riskLevel: hits.reduce<RiskLevel>((level, h) => RISK_LEVELS.indexOf(h.detector.level) > RISK_LEVELS.indexOf(level) ? h.detector.level : level, 'Low'),
+    sentiment: 'Neutral',
+    categories: ['personal-info'],
+    confidence: Math.max(...hits.map(h => h.detector.confidence)),
+    spans: hits.map(h => h.span)
+  };
+}
+
+// Returns null when nothing in the post matched.
+export function scanPost(post: XPost): AuditResult | null {
+  const hits = detect(post.full_text);
+  return hits.length > 0 ? toAuditResult(hits) : null;
+}
+
+export function scanPosts(posts: XPost[]): PiiScanResult {
+  const findings = new Map<string, AuditResult>();
+  const counts: Partial<Record<PiiKind, number>> = {};
+  posts.forEach(post => {
+    const hits = detect(post.full_text);
+    if (hits.length === 0) return;
+    findings.set(post.id, toAuditResult(hits));
+    new Set(hits.map(h => h.detector.kind)).forEach(kind => {
+      counts[kind] = (counts[kind] || 0) + 1;
+    });
+  });
+  return { findings, counts };
+}
@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { normalizePost } from "./archiveImporter";
+import { createPostDeleter, XApiDeleter } from "./postDeleter";
+import { makePost } from "./testUtils";
+import { XAuthError } from "./xAuth";
+
+const BASE_URL = "https://api.test";
+
+function respond(status: number, body: unknown, headers: Record<string, string> = {}) {
+  const fetch = vi.fn(async (_url: string, _init?: RequestInit) => new Response(JSON.stringify(body), { status, headers }));
+  vi.stubGlobal("fetch", fetch);
+  return fetch;
+}
+
+const deleter = (getAccessToken: () => Promise<string> = async () => "token") =>
+  new XApiDeleter({ userId: "42", getAccessToken }, BASE_URL);
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("XApiDeleter outcomes", () => {
+  const post = makePost({ id: "100" });
+
+  it("reports a deletion only when X confirms it", async () => {
+    respond(200, { data: { deleted: true } });
+    expect(await deleter().deletePost(post)).toMatchObject({ status: "deleted" });
+
+    respond(200, { data: { deleted: false } });
+    expect(await deleter().deletePost(post)).toMatchObject({ status: "error" });
+  });
+
+  it("treats a 404 as already gone only when it names the post", async () => {
+    respond(404, { errors: [{ resource_type: "tweet", resource_id: "100", title: "Not Found Error" }] });
+    expect(await deleter().deletePost(post)).toMatchObject({ status: "already-gone" });
+
+    respond(404, { title: "Not Found Error", detail: "Could not find tweet with id: [100]." });
+    expect(await deleter().deletePost(post)).toMatchObject({ status: "already-gone" });
+
+    respond(404, { errors: [{ resource_id: "999" }] });
+    expect(await deleter().deletePost(post)).toMatchObject({ status: "error", message: "HTTP 404: Not Found" });
+
+    respond(404, "Not Found");
+    expect(await deleter().deletePost(post)).toMatchObject({ status: "error" });
+  });
+
+  it("passes the reset time of a 429 on as the retry time", async () => {
+    const reset = Math.ceil(Date.now() / 1000) + 300;
+    respond(429, { title: "Too Many Requests" }, { "x-rate-limit-remaining": "0", "x-rate-limit-reset": String(reset) });
+    expect(await deleter().deletePost(post)).toEqual({
+      status: "rate-limited",
+      retryAt: reset * 1000,
+      rateLimit: { limit: undefined, remaining: 0, resetAt: reset * 1000 }
+    });
+  });
+
+  it("maps 401 and 403 to auth failures and 5xx to errors", async () => {
+    respond(401, { title: "Unauthorized" });
+    expect(await deleter().deletePost(post)).toMatchObject({ status: "auth-failed", message: "Unauthorized" });
+
+    respond(403, { title: "Forbidden", detail: "You are not allowed to delete this Tweet." });
+    expect(await deleter().deletePost(post)).toMatchObject({ status: "auth-failed", message: "You are not allowed to delete this Tweet." });
+
+    respond(503, { title: "Service Unavailable" });
+    expect(await deleter().deletePost(post)).toMatchObject({ status: "error", message: "HTTP 503: Service Unavailable" });
+  });
+
+  it("retries a transient refresh failure but asks for a sign-in when the grant is gone", async () => {
+    const fetch = respond(200, { data: { deleted: true } });
+    const transient = deleter(async () => { throw new XAuthError("Bad gateway", 502); });
+    expect(await transient.deletePost(post)).toEqual({ status: "error", message: "Token refresh failed: Bad gateway" });
+
+    const rejected = deleter(async () => { throw new XAuthError("Refresh token revoked", 400, "invalid_grant"); });
+    expect(await rejected.deletePost(post)).toEqual({ status: "auth-failed", message: "Refresh token revoked" });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe("XApiDeleter routes", () => {
+  it("undoes a repost through the retweets endpoint when the reposted post is known", async () => {
+    const fetch = respond(200, { data: { retweeted: false } });
+    const repost = normalizePost({
+      tweet: {
+        id_str: "200",
+        full_text: "RT @alice: Look at this https://t.co/pic",
+        created_at: "Wed Jun 30 12:00:00 +0000 2021",
+        entities: { user_mentions: [{ id_str: "7", screen_name: "alice" }] },
+        extended_entities: { media: [{ id_str: "5", type: "photo", media_url_https: "https://pbs.twimg.com/5.jpg", source_status_id_str: "150" }] }
+      }
+    });
+    expect(repost).toMatchObject({ type: "repost", repost_of_id: "150" });
+
+    expect(await deleter().deletePost(repost)).toMatchObject({ status: "deleted" });
+    expect(fetch.mock.calls[0][0]).toBe(`${BASE_URL}/2/users/42/retweets/150`);
+    expect(fetch.mock.calls[0][1]?.method).toBe("DELETE");
+  });
+
+  it("deletes the repost itself when the archive does not name the reposted post", async () => {
+    const fetch = respond(200, { data: { deleted: true } });
+    const repost = normalizePost({
+      tweet: { id_str: "201", full_text: "RT @alice: Plain text", created_at: "Wed Jun 30 12:00:00 +0000 2021" }
+    });
+    expect(repost.repost_of_id).toBeUndefined();
+
+    expect(await deleter().deletePost(repost)).toMatchObject({ status: "deleted" });
+    expect(fetch.mock.calls[0][0]).toBe(`${BASE_URL}/2/tweets/201`);
+  });
+
+  it("unlikes through the likes endpoint", async () => {
+    const fetch = respond(200, { data: { liked: false } });
+    expect(await deleter().deletePost(makePost({ id: "like-300", type: "like", liked_tweet_id: "300" }))).toMatchObject({ status: "deleted" });
+    expect(fetch.mock.calls[0][0]).toBe(`${BASE_URL}/2/users/42/likes/300`);
+  });
+});
+
+describe("createPostDeleter", () => {
+  it("refuses to target X without a signed-in user id", () => {
+    expect(() => createPostDeleter("x-api", null)).toThrow(XAuthError);
+    expect(createPostDeleter("dry-run", null).mode).toBe("dry-run");
+  });
+});
@@ -0,0 +1,133 @@
+import { XPost, DeleteOutcome, DeleterMode, XSession } from "../types";
+import { getAccessToken, XAuthError } from "./xAuth";
+import { parseRateLimitHeaders } from "./rateLimiter";
+
+const X_API_BASE_URL = "https://api.x.com";
+const MOCK_API_BASE_URL = process.env.X_MOCK_API_URL || "http://localhost:8787";
+
+export interface PostDeleter {
+  readonly mode: DeleterMode;
+  deletePost(post: XPost): Promise<DeleteOutcome>;
+}
+
+export interface XApiCredentials {
+  userId: string;
+  getAccessToken: () => Promise<string>;
+}
+
+// Logs the request and reports success without touching the network.
+export class DryRunDeleter implements PostDeleter {
+  readonly mode: DeleterMode = 'dry-run';
+
+  async deletePost(post: XPost): Promise<DeleteOutcome> {
+    console.log(post.type === 'like'
+      ? `[dry-run] Unliking ID: ${post.liked_tweet_id}`
+      : `[dry-run] Deleting ${post.type} ID: ${post.id}`);
+    return { status: 'deleted' };
+  }
+}
+
+// Talks to the X API v2. Reposts are undone through the retweets endpoint when the
+// archive recorded the source post, otherwise the repost id itself is deleted. Likes
+// are undone through the likes endpoint.
+export class XApiDeleter implements PostDeleter {
+  constructor(
+    private readonly credentials: XApiCredentials,
+    private readonly baseUrl: string = X_API_BASE_URL,
+    readonly mode: DeleterMode = 'x-api'
+  ) {}
+
+  async deletePost(post: XPost): Promise<DeleteOutcome> {
+    const [path, resourceId] = post.type === 'like'
+      ? [`/2/users/${this.credentials.userId}/likes/${post.liked_tweet_id}`, post.liked_tweet_id]
+      : post.type === 'repost' && post.repost_of_id
+        ? [`/2/users/${this.credentials.userId}/retweets/${post.repost_of_id}`, post.repost_of_id]
+        : [`/2/tweets/${post.id}`, post.id];
+
+    let accessToken: string;
+    try {
+      accessToken = await this.credentials.getAccessToken();
+    } catch (e) {
+      // Only a rejected or missing session needs a new sign-in; a failed refresh request is retried.
+      if (e instanceof XAuthError && !e.transient) return { status: 'auth-failed', message: e.message };
+      return { status: 'error', message: e instanceof Error ? `Token refresh failed: ${e.message}` : 'Token refresh failed' };
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${accessToken}` }
+      });
+    } catch (e) {
+      return { status: 'error', message: e instanceof Error ? e.message : 'Network request failed' };
+    }
+
+    return { ...await toOutcome(response, resourceId), rateLimit: parseRateLimitHeaders(response.headers) };
+  }
+}
+
+async function toOutcome(response: Response, resourceId: string | undefined): Promise<DeleteOutcome> {
+  if (response.status === 404) {
+    // Only a 404 naming the post we asked about means it is gone; any other 404
+    // (a wrong route or user id) must not drop the post from the session.
+    const body = await response.json().catch(() => null);
+    if (resourceId && namesResource(body, resourceId)) return { status: 'already-gone' };
+    return { status: 'error', message: `HTTP 404: ${body?.detail || body?.title || response.statusText || 'Not Found'}` };
+  }
+
+  if (response.status === 429) {
+    const rateLimit = parseRateLimitHeaders(response.headers);
+    return { status: 'rate-limited', retryAt: rateLimit?.resetAt ?? Date.now() + 60_000 };
+  }
+
+  if (response.status === 401 || response.status === 403) {
+    return { status: 'auth-failed', message: await readErrorDetail(response) };
+  }
+
+  if (!response.ok) {
+    return { status: 'error', message: `HTTP ${response.status}: ${await readErrorDetail(response)}` };
+  }
+
+  // Every endpoint answers 200 even when nothing was removed, so check the body flag.
+  const body = await response.json().catch(() => null);
+  if (body?.data?.deleted === true || body?.data?.retweeted === false || body?.data?.liked === false) {
+    return { status: 'deleted' };
+  }
+  return { status: 'error', message: `Unexpected response: ${JSON.stringify(body?.data ?? body)}` };
+}
+
+// X reports missing resources as problems carrying the resource id, either at the top
+// level or in an `errors` array; older responses only mention it in the detail text.
+function namesResource(body: unknown, resourceId: string): boolean {
+  if (typeof body !== 'object' || body === null) return false;
+  const errors = 'errors' in body && Array.isArray(body.errors) ? body.errors : [];
+  return [body, ...errors].some((problem: unknown) => {
+    if (typeof problem !== 'object' || problem === null) return false;
+    if ('resource_id' in problem && problem.resource_id === resourceId) return true;
+    return 'detail' in problem && typeof problem.detail === 'string' && problem.detail.includes(`[${resourceId}]`);
+  });
+}
+
+async function readErrorDetail(response: Response): Promise<string> {
+  const body = await response.json().catch(() => null);
+  return body?.detail || body?.title || response.statusText || 'Unknown error';
+}
+
+// Throws when X is the target but no account is signed in: the user id is part of the
+// unlike and unrepost routes, and an empty one makes every request miss.
+export function createPostDeleter(mode: DeleterMode, session: XSession | null): PostDeleter {
+  switch (mode) {
+    case 'x-api':
+      if (!session?.user.id) throw new XAuthError("Sign in with X to delete posts from your account.");
+      return new XApiDeleter({ userId: session.user.id, getAccessToken });
+    case 'mock-server':
+      return new XApiDeleter(
+        { userId: session?.user.id || 'mock-user', getAccessToken: async () => 'mock-token' },
+        MOCK_API_BASE_URL,
+        'mock-server'
+      );
+    default:
+      return new DryRunDeleter();
+  }
+}
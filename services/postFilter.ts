@@ -0,0 +1,39 @@
+import { XPost, ArchiveFilter, PreviewMode, QueryError } from "../types";
+import { parseQuery, compileQuery, builderQuery, keywordNode, combineQueries, dateContext, QueryParseError } from "./queryLanguage";
+
+export interface FilterResult {
+  ids: string[];
+  keywordHits: number;
+  queryError?: QueryError;
+}
+
+export function filterPosts(posts: XPost[], filters: ArchiveFilter, previewMode: PreviewMode): FilterResult {
+  // An unparseable query must select nothing rather than silently widening the purge target.
+  let query;
+  try {
+    query = parseQuery(filters.query);
+  } catch (e) {
+    if (e instanceof QueryParseError) return { ids: [], keywordHits: 0, queryError: e.toJSON() };
+    throw e;
+  }
+
+  const context = dateContext(filters);
+  const matches = compileQuery(combineQueries(builderQuery(filters), query), context);
+  const keywords = keywordNode(filters.keywords);
+  const matchesKeywords = compileQuery(keywords, context);
+
+  const ids: string[] = [];
+  let keywordHits = 0;
+
+  posts.forEach(post => {
+    const time = new Date(post.created_at).getTime();
+    if (keywords && matchesKeywords(post, time)) keywordHits += 1;
+
+    // If preview mode is 'keywords', we force the keywords match
+    if (previewMode === 'keywords' && !keywords) return;
+
+    if (matches(post, time)) ids.push(post.id);
+  });
+
+  return { ids, keywordHits };
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { parsePresetFile, PresetError, PRESET_SCHEMA_VERSION } from "./presets";
+import { localTimeZone } from "./timeZone";
+
+const preset = (filters: Record<string, unknown>) => ({
+  name: "Old replies",
+  filters: {
+    dateFrom: "2010-01-01",
+    dateTo: "2020-12-31",
+    keywords: [],
+    postTypes: ["reply"],
+    requires: [],
+    query: "",
+    ...filters
+  },
+  options: { previewMode: "all", deleterMode: "dry-run", rateProfile: "conservative" }
+});
+
+const file = (version: number, presets: unknown[]) => ({ schema: "x-purge/presets", version, presets });
+
+describe("preset schema versions", () => {
+  it("rejects presets from a newer schema than this build reads", () => {
+    const newer = file(PRESET_SCHEMA_VERSION + 1, [preset({ recipients: [], relative: null, timeZone: "UTC" })]);
+    expect(() => parsePresetFile(newer)).toThrow(PresetError);
+    expect(() => parsePresetFile(newer)).toThrow(`schema v${PRESET_SCHEMA_VERSION + 1}, but this app only understands up to v${PRESET_SCHEMA_VERSION}`);
+  });
+
+  it("rejects files without a usable version", () => {
+    expect(() => parsePresetFile(file(0, []))).toThrow("version: Unsupported schema version 0.");
+    expect(() => parsePresetFile({ schema: "x-purge/presets", presets: [] })).toThrow(/Unsupported schema version/);
+    expect(() => parsePresetFile({ ...file(2, []), schema: "other" })).toThrow(/Not a preset file/);
+  });
+
+  it("reads current presets as they are", () => {
+    const v2 = file(2, [preset({ recipients: ["123"], relative: { bound: "older", amount: 2, unit: "y" }, timeZone: "Asia/Tokyo" })]);
+    expect(PRESET_SCHEMA_VERSION).toBe(2);
+    expect(parsePresetFile(v2)[0].filters).toMatchObject({ recipients: ["123"], relative: { bound: "older", amount: 2, unit: "y" }, timeZone: "Asia/Tokyo" });
+  });
+
+  it("migrates v1 presets to fixed dates in the local zone without recipients", () => {
+    const [migrated] = parsePresetFile(file(1, [preset({})]));
+    expect(migrated.filters).toMatchObject({ recipients: [], relative: null, timeZone: localTimeZone(), asOf: null });
+  });
+});
@@ -0,0 +1,211 @@
+import { FilterPreset, ArchiveFilter, PurgeOptions, PostAttribute, DeleterMode, PreviewMode, RateLimitProfile, RelativeRange, AgeUnit } from "../types";
+import { RATE_LIMIT_PROFILES } from "./rateLimiter";
+import { parseQuery, QueryParseError, POST_TYPES } from "./queryLanguage";
+import { AGE_UNITS, isTimeZone, localTimeZone } from "./timeZone";
+
+// Named filter + purge option presets. The same versioned envelope is used in
+// localStorage and in exported files, so shared rule sets go through one validator.
+
+const PRESETS_KEY = "x-purge:presets";
+const PRESET_SCHEMA = "x-purge/presets";
+export const PRESET_SCHEMA_VERSION = 2;
+
+const POST_ATTRIBUTES: PostAttribute[] = ['media', 'link', 'hashtag', 'mention'];
+const DELETER_MODES: DeleterMode[] = ['dry-run', 'mock-server', 'x-api'];
+const PREVIEW_MODES: PreviewMode[] = ['all', 'keywords'];
+
+export class PresetError extends Error {
+  constructor(message: string, readonly path?: string) {
+    super(path ? `${path}: ${message}` : message);
+  }
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Upgrades keyed by the version they migrate from; each step returns the next version's shape.
+const MIGRATIONS: Record<number, (file: Json) => Json> = {
+  // v2 added reply recipients, relative date ranges and the time zone. v1 dates were
+  // evaluated in the browser's zone, and v1 had no recipient or relative filters.
+  1: file => ({
+    ...file,
+    presets: Array.isArray(file.presets)
+      ? file.presets.map(preset => isObject(preset) && isObject(preset.filters)
+        ? { ...preset, filters: { recipients: [], relative: null, timeZone: localTimeZone(), ...preset.filters } }
+        : preset)
+      : file.presets
+  })
+};
+
+function migrate(file: unknown): Json {
+  if (!isObject(file) || file.schema !== PRESET_SCHEMA) {
+    throw new PresetError(`Not a preset file (expected "schema": "${PRESET_SCHEMA}").`);
+  }
+  let version = file.version;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new PresetError(`Unsupported schema version ${JSON.stringify(version)}.`, "version");
+  }
+  if (version > PRESET_SCHEMA_VERSION) {
+    throw new PresetError(`These presets use schema v${version}, but this app only understands up to v${PRESET_SCHEMA_VERSION}. Update the app to import them.`, "version");
+  }
+
+  let data = file;
+  while (version < PRESET_SCHEMA_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) {
+      throw new PresetError(`Schema v${version} is outdated and cannot be migrated to v${PRESET_SCHEMA_VERSION}. Re-create these presets and export them again.`, "version");
+    }
+    data = step(data);
+    version++;
+  }
+  return data;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== "string") throw new PresetError("expected a string", path);
+  return value;
+}
+
+function expectOneOf<T extends string>(value: unknown, allowed: readonly T[], path: string): T {
+  if (!allowed.includes(value as T)) throw new PresetError(`expected one of ${allowed.join(", ")}`, path);
+  return value as T;
+}
+
+function expectList<T>(value: unknown, path: string, item: (v: unknown, path: string) => T): T[] {
+  if (!Array.isArray(value)) throw new PresetError("expected an array", path);
+  return value.map((v, i) => item(v, `${path}[${i}]`));
+}
+
+function expectDate(value: unknown, path: string): string {
+  const date = expectString(value, path);
+  if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) throw new PresetError("expected a YYYY-MM-DD date", path);
+  return date;
+}
+
+function expectRelative(value: unknown, path: string): RelativeRange {
+  if (!isObject(value)) throw new PresetError("expected an object", path);
+  const amount = value.amount;
+  if (typeof amount !== "number" || !Number.isInteger(amount) || amount < 0) {
+    throw new PresetError("expected a whole number", `${path}.amount`);
+  }
+  return {
+    bound: expectOneOf(value.bound, ["older", "newer"] as const, `${path}.bound`),
+    amount,
+    unit: expectOneOf(value.unit, AGE_UNITS.map(u => u.unit) as AgeUnit[], `${path}.unit`)
+  };
+}
+
+function expectTimeZone(value: unknown, path: string): string {
+  const timeZone = expectString(value, path);
+  if (!isTimeZone(timeZone)) throw new PresetError(`unknown time zone "${timeZone}"`, path);
+  return timeZone;
+}
+
+function validateFilters(value: unknown, path: string): ArchiveFilter {
+  if (!isObject(value)) throw new PresetError("expected an object", path);
+  const query = expectString(value.query ?? "", `${path}.query`);
+  try {
+    parseQuery(query);
+  } catch (e) {
+    if (e instanceof QueryParseError) throw new PresetError(e.message, `${path}.query`);
+    throw e;
+  }
+  return {
+    dateFrom: expectDate(value.dateFrom, `${path}.dateFrom`),
+    dateTo: expectDate(value.dateTo, `${path}.dateTo`),
+    relative: value.relative === null ? null : expectRelative(value.relative, `${path}.relative`),
+    timeZone: expectTimeZone(value.timeZone, `${path}.timeZone`),
+    // Relative ranges in a preset count back from whenever it is applied.
+    asOf: null,
+    keywords: expectList(value.keywords, `${path}.keywords`, expectString),
+    postTypes: expectList(value.postTypes, `${path}.postTypes`, (v, p) => expectOneOf(v, POST_TYPES, p)),
+    requires: expectList(value.requires, `${path}.requires`, (v, p) => expectOneOf(v, POST_ATTRIBUTES, p)),
+    recipients: expectList(value.recipients, `${path}.recipients`, expectString),
+    query
+  };
+}
+
+function validateOptions(value: unknown, path: string): PurgeOptions {
+  if (!isObject(value)) throw new PresetError("expected an object", path);
+  return {
+    previewMode: expectOneOf(value.previewMode, PREVIEW_MODES, `${path}.previewMode`),
+    deleterMode: expectOneOf(value.deleterMode, DELETER_MODES, `${path}.deleterMode`),
+    rateProfile: expectOneOf(value.rateProfile, Object.keys(RATE_LIMIT_PROFILES) as RateLimitProfile[], `${path}.rateProfile`)
+  };
+}
+
+function validatePreset(value: unknown, path: string): FilterPreset {
+  if (!isObject(value)) throw new PresetError("expected an object", path);
+  const name = expectString(value.name, `${path}.name`).trim();
+  if (!name) throw new PresetError("must not be empty", `${path}.name`);
+  return {
+    id: typeof value.id === "string" ? value.id : crypto.randomUUID(),
+    name,
+    filters: validateFilters(value.filters, `${path}.filters`),
+    options: validateOptions(value.options, `${path}.options`),
+    updatedAt: typeof value.updatedAt === "number" ? value.updatedAt : Date.now()
+  };
+}
+
+export function parsePresetFile(file: unknown): FilterPreset[] {
+  const data = migrate(file);
+  return expectList(data.presets, "presets", validatePreset);
+}
+
+function envelope<T>(presets: T[]) {
+  return { schema: PRESET_SCHEMA, version: PRESET_SCHEMA_VERSION, presets };
+}
+
+function savePresets(presets: FilterPreset[]): FilterPreset[] {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(envelope(presets)));
+  return presets;
+}
+
+export function loadPresets(): FilterPreset[] {
+  try {
+    const raw = localStorage.getItem(PRESETS_KEY);
+    return raw ? parsePresetFile(JSON.parse(raw)) : [];
+  } catch (e) {
+    console.warn("Ignoring unreadable saved presets", e);
+    return [];
+  }
+}
+
+// Saving under an existing name (case-insensitive) replaces that preset.
+export function savePreset(name: string, filters: ArchiveFilter, options: PurgeOptions): FilterPreset[] {
+  const preset = validatePreset({ name, filters, options }, "preset");
+  const existing = loadPresets();
+  const previous = existing.find(p => p.name.toLowerCase() === preset.name.toLowerCase());
+  return savePresets([
+    ...existing.filter(p => p !== previous),
+    { ...preset, id: previous?.id ?? preset.id }
+  ].sort((a, b) => a.name.localeCompare(b.name)));
+}
+
+export function deletePreset(id: string): FilterPreset[] {
+  return savePresets(loadPresets().filter(p => p.id !== id));
+}
+
+export function exportPresets(presets: FilterPreset[]): string {
+  const shared = presets.map(({ name, filters, options }) => ({ name, filters, options }));
+  return JSON.stringify({ ...envelope(shared), exportedAt: new Date().toISOString() }, null, 2);
+}
+
+// Validates the whole file before touching storage; imported presets replace same-named ones.
+export function importPresets(text: string): { presets: FilterPreset[]; imported: number } {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new PresetError("The file is not valid JSON.");
+  }
+  const incoming = parsePresetFile(file);
+  const names = new Set(incoming.map(p => p.name.toLowerCase()));
+  const merged = [
+    ...loadPresets().filter(p => !names.has(p.name.toLowerCase())),
+    ...incoming.map(p => ({ ...p, id: crypto.randomUUID(), updatedAt: Date.now() }))
+  ].sort((a, b) => a.name.localeCompare(b.name));
+  return { presets: savePresets(merged), imported: incoming.length };
+}
@@ -0,0 +1,97 @@
+import { XPost, PurgeRun, JournalEntry, JournalOutcome, RunReport, RunReportItem, RunItemResult } from "../types";
+import { openDb, requestToPromise, transactionDone, STORES } from "./db";
+
+// Every purge run gets a header and an append-only journal of per-post outcomes. Unlike
+// the purge queue, none of it is discarded when a run finishes, so past runs stay reviewable.
+
+const FINAL_RESULTS: Partial<Record<JournalOutcome, RunItemResult>> = {
+  deleted: 'succeeded',
+  'already-gone': 'succeeded',
+  skipped: 'skipped',
+  failed: 'failed'
+};
+
+// Outcomes that consumed a delete attempt; rate limits and auth failures did not.
+const ATTEMPTS: JournalOutcome[] = ['deleted', 'already-gone', 'retrying', 'failed'];
+
+export async function startRun(run: Omit<PurgeRun, 'id' | 'startedAt' | 'endedAt' | 'endReason'>): Promise<PurgeRun> {
+  const created: PurgeRun = { ...run, id: crypto.randomUUID(), startedAt: Date.now(), endedAt: null, endReason: null };
+  const db = await openDb();
+  const tx = db.transaction(STORES.purgeRuns, "readwrite");
+  tx.objectStore(STORES.purgeRuns).put(created);
+  await transactionDone(tx);
+  return created;
+}
+
+export async function appendJournal(runId: string, postId: string, outcome: JournalOutcome, message?: string, post?: XPost): Promise<void> {
+  const entry: JournalEntry = { runId, postId, outcome, message, at: Date.now(), post };
+  const db = await openDb();
+  const tx = db.transaction(STORES.journal, "readwrite");
+  tx.objectStore(STORES.journal).add(entry);
+  await transactionDone(tx);
+}
+
+export async function endRun(runId: string, endReason: 'completed' | 'stopped'): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(STORES.purgeRuns, "readwrite");
+  const store = tx.objectStore(STORES.purgeRuns);
+  const run = await requestToPromise<PurgeRun | undefined>(store.get(runId));
+  if (run) store.put({ ...run, endedAt: Date.now(), endReason });
+  await transactionDone(tx);
+}
+
+// Newest first.
+export async function loadRuns(): Promise<PurgeRun[]> {
+  const db = await openDb();
+  const runs = await requestToPromise<PurgeRun[]>(db.transaction(STORES.purgeRuns).objectStore(STORES.purgeRuns).getAll());
+  return runs.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export function summarizeRun(run: PurgeRun, entries: JournalEntry[]): RunReport {
+  const items = new Map<string, RunReportItem>();
+  const resolved = new Set<string>();
+  entries.forEach(entry => {
+    const item = items.get(entry.postId) ?? { postId: entry.postId, result: 'failed' as RunItemResult, attempts: 0, retried: false, at: entry.at };
+    if (ATTEMPTS.includes(entry.outcome)) item.attempts += 1;
+    item.retried = item.attempts > 1;
+    item.at = entry.at;
+    if (entry.message) item.message = entry.message;
+    if (entry.post) item.post = entry.post;
+    const result = FINAL_RESULTS[entry.outcome];
+    if (result) {
+      resolved.add(entry.postId);
+      item.result = result;
+      // A success after earlier errors should not keep showing the error.
+      if (result !== 'failed') item.message = undefined;
+    }
+    items.set(entry.postId, item);
+  });
+
+  // Posts that only ever logged retries, rate limits or auth failures never reached a result.
+  const finished = [...items.values()].filter(item => resolved.has(item.postId));
+  const counts: RunReport['counts'] = { succeeded: 0, skipped: 0, failed: 0, retried: 0, unfinished: 0 };
+  finished.forEach(item => {
+    counts[item.result] += 1;
+    if (item.retried) counts.retried += 1;
+  });
+  counts.unfinished = Math.max(0, run.total - finished.length);
+  return { run, items: finished, counts };
+}
+
+export async function loadRunReport(runId: string): Promise<RunReport | null> {
+  const db = await openDb();
+  const tx = db.transaction([STORES.purgeRuns, STORES.journal]);
+  const [run, entries] = await Promise.all([
+    requestToPromise<PurgeRun | undefined>(tx.objectStore(STORES.purgeRuns).get(runId)),
+    requestToPromise<JournalEntry[]>(tx.objectStore(STORES.journal).index("runId").getAll(runId))
+  ]);
+  return run ? summarizeRun(run, entries) : null;
+}
+
+export async function clearJournal(): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([STORES.purgeRuns, STORES.journal], "readwrite");
+  tx.objectStore(STORES.purgeRuns).clear();
+  tx.objectStore(STORES.journal).clear();
+  await transactionDone(tx);
+}
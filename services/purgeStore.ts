@@ -0,0 +1,93 @@
+import { XPost, PurgeItem, PurgeItemState, PurgeJob, ArchiveTweet } from "../types";
+import { openDb, requestToPromise, transactionDone, STORES } from "./db";
+
+// Persists the purge queue so a long-running purge survives reloads. Only one job
+// is active at a time; starting a new one replaces whatever was left behind.
+
+export async function createPurgeJob(
+  job: Omit<PurgeJob, 'id' | 'createdAt' | 'updatedAt' | 'total' | 'completed' | 'failed'>,
+  posts: XPost[],
+  tweets: Map<string, ArchiveTweet> = new Map()
+): Promise<PurgeJob> {
+  await discardPurgeJob();
+
+  const now = Date.now();
+  const created: PurgeJob = {
+    ...job,
+    id: crypto.randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+    total: posts.length,
+    completed: 0,
+    failed: 0
+  };
+
+  const db = await openDb();
+  const tx = db.transaction([STORES.purgeJobs, STORES.purgeItems], "readwrite");
+  tx.objectStore(STORES.purgeJobs).put(created);
+  const items = tx.objectStore(STORES.purgeItems);
+  posts.forEach((post, order) => {
+    const item: PurgeItem = { jobId: created.id, postId: post.id, order, post, state: 'pending', attempts: 0, tweet: tweets.get(post.id) };
+    items.put(item);
+  });
+  await transactionDone(tx);
+  return created;
+}
+
+export async function loadActivePurgeJob(): Promise<PurgeJob | null> {
+  const db = await openDb();
+  const jobs = await requestToPromise<PurgeJob[]>(
+    db.transaction(STORES.purgeJobs).objectStore(STORES.purgeJobs).getAll()
+  );
+  return jobs.sort((a, b) => b.updatedAt - a.updatedAt)[0] || null;
+}
+
+export async function loadPendingItems(jobId: string): Promise<PurgeItem[]> {
+  const db = await openDb();
+  const items = await requestToPromise<PurgeItem[]>(
+    db.transaction(STORES.purgeItems).objectStore(STORES.purgeItems).index("jobId").getAll(jobId)
+  );
+  return items.filter(item => item.state === 'pending').sort((a, b) => a.order - b.order);
+}
+
+// Writes the item's new state and the job's counters in one transaction so the
+// cursor can never drift from the per-item record.
+export async function recordItemOutcome(
+  jobId: string,
+  postId: string,
+  state: PurgeItemState,
+  lastError?: string
+): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([STORES.purgeJobs, STORES.purgeItems], "readwrite");
+  const jobs = tx.objectStore(STORES.purgeJobs);
+  const items = tx.objectStore(STORES.purgeItems);
+
+  const [job, item] = await Promise.all([
+    requestToPromise<PurgeJob | undefined>(jobs.get(jobId)),
+    requestToPromise<PurgeItem | undefined>(items.get([jobId, postId]))
+  ]);
+  if (!job || !item) return;
+
+  items.put({ ...item, state, attempts: item.attempts + 1, lastError });
+  jobs.put({
+    ...job,
+    updatedAt: Date.now(),
+    completed: job.completed + (state === 'done' ? 1 : 0),
+    failed: job.failed + (state === 'failed' ? 1 : 0)
+  });
+  await transactionDone(tx);
+}
+
+export async function discardPurgeJob(jobId?: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([STORES.purgeJobs, STORES.purgeItems], "readwrite");
+  if (jobId) {
+    tx.objectStore(STORES.purgeJobs).delete(jobId);
+    tx.objectStore(STORES.purgeItems).delete(IDBKeyRange.bound([jobId], [jobId, []]));
+  } else {
+    tx.objectStore(STORES.purgeJobs).clear();
+    tx.objectStore(STORES.purgeItems).clear();
+  }
+  await transactionDone(tx);
+}
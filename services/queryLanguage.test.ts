@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { ArchiveFilter } from "../types";
+import { appendQueryTerm, builderQuery, compileQuery, formatQuery, parseQuery, POST_TYPES } from "./queryLanguage";
+import { makePost } from "./testUtils";
+
+const post = (text: string, likes: number) => makePost({ full_text: text, favorite_count: likes });
+
+describe("appendQueryTerm", () => {
+  it("keeps a top-level OR together when ANDing a term", () => {
+    const query = appendQueryTerm("a OR b", "likes:>=10 likes:<=49");
+    expect(query).toBe("(a OR b) likes:>=10 likes:<=49");
+
+    const matches = compileQuery(parseQuery(query));
+    const time = Date.parse("2021-06-30T12:00:00Z");
+    expect(matches(post("a", 20), time)).toBe(true);
+    expect(matches(post("a", 0), time)).toBe(false);
+    expect(matches(post("b", 0), time)).toBe(false);
+  });
+
+  it("appends to a plain conjunction and skips terms already present", () => {
+    expect(appendQueryTerm("", "#tag")).toBe("#tag");
+    expect(appendQueryTerm("crypto type:reply", "#tag")).toBe("crypto type:reply #tag");
+    expect(appendQueryTerm("crypto #tag", "#tag")).toBe("crypto #tag");
+    expect(appendQueryTerm("a OR #tag", "#tag")).toBe("(a OR #tag) #tag");
+  });
+});
+
+describe("builderQuery", () => {
+  const empty: ArchiveFilter = {
+    dateFrom: "",
+    dateTo: "",
+    relative: null,
+    timeZone: "UTC",
+    asOf: null,
+    keywords: [],
+    postTypes: [],
+    requires: [],
+    recipients: [],
+    query: ""
+  };
+  const full: ArchiveFilter = {
+    ...empty,
+    dateFrom: "2019-01-01",
+    dateTo: "2021-12-31",
+    keywords: ["crypto", "to the moon"],
+    postTypes: ["reply", "self-thread"],
+    requires: ["link"],
+    recipients: ["123", "friend"]
+  };
+
+  // Whatever the sidebar shows must be something the query box can read back.
+  const roundTrip = (filters: ArchiveFilter) => formatQuery(parseQuery(formatQuery(builderQuery(filters))));
+
+  it("formats builder states the query parser accepts", () => {
+    expect(formatQuery(builderQuery(empty))).toBe("");
+    expect(roundTrip(empty)).toBe("");
+
+    const text = formatQuery(builderQuery(full));
+    expect(text).toBe('from:2019-01-01 to:2021-12-31 (type:reply OR type:self-thread) has:link (replyto:123 OR replyto:friend) (crypto OR "to the moon")');
+    expect(roundTrip(full)).toBe(text);
+
+    const allButLikes = { ...full, postTypes: POST_TYPES.filter(t => t !== "like") };
+    expect(roundTrip(allButLikes)).toContain("-type:like");
+  });
+
+  it("leaves out the type group when no type is selected", () => {
+    expect(formatQuery(builderQuery({ ...full, postTypes: [] }))).not.toContain("type:");
+    expect(roundTrip({ ...full, postTypes: [] })).toBe(roundTrip({ ...full, postTypes: [...POST_TYPES] }));
+  });
+});
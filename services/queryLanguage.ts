@@ -0,0 +1,506 @@
+import { XPost, PostType, ArchiveFilter, QueryNode, QueryError, MetricOp, AgeUnit } from "../types";
+import { localTimeZone, startOfDay, daysAgo } from "./timeZone";
+
+// Query language for selecting posts, e.g.
+//   from:2019 to:2021 type:reply -@friend ("crypto" OR regex:/nft\b/i) likes:<5 has:link lang:en
+//   older:2y newer:6m
+// Terms separated by whitespace are ANDed; OR and parentheses group, a leading - or NOT negates.
+
+export class QueryParseError extends Error {
+  constructor(message: string, readonly start: number, readonly end: number) {
+    super(message);
+  }
+
+  toJSON(): QueryError {
+    return { message: this.message, start: this.start, end: this.end };
+  }
+}
+
+export const POST_TYPES: PostType[] = ['tweet', 'reply', 'self-thread', 'quote', 'repost', 'like'];
+const HAS_VALUES = ['link', 'media', 'photo', 'video', 'hashtag', 'mention'] as const;
+const METRIC_FIELDS: Record<string, 'likes' | 'reposts'> = { likes: 'likes', reposts: 'reposts', retweets: 'reposts' };
+
+type Token =
+  | { type: 'lparen' | 'rparen' | 'minus' | 'or' | 'and' | 'not'; start: number; end: number }
+  | { type: 'word'; value: string; start: number; end: number }
+  | { type: 'phrase'; value: string; start: number; end: number }
+  | { type: 'regex'; pattern: string; flags: string; start: number; end: number };
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const c = input[i];
+    if (/\s/.test(c)) {
+      i++;
+      continue;
+    }
+    if (c === '(' || c === ')') {
+      tokens.push({ type: c === '(' ? 'lparen' : 'rparen', start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+    if (c === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      tokens.push({ type: 'minus', start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+    if (c === '"') {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === '\\' && i + 1 < input.length) i++;
+        value += input[i++];
+      }
+      if (i >= input.length) throw new QueryParseError('Unterminated quote', start, input.length);
+      i++;
+      tokens.push({ type: 'phrase', value, start, end: i });
+      continue;
+    }
+    if (input.startsWith('regex:/', i)) {
+      const start = i;
+      i += 'regex:/'.length;
+      let pattern = '';
+      while (i < input.length && input[i] !== '/') {
+        if (input[i] === '\\' && i + 1 < input.length) pattern += input[i++];
+        pattern += input[i++];
+      }
+      if (i >= input.length) throw new QueryParseError('Unterminated regex, expected closing /', start, input.length);
+      i++;
+      const flags = input.slice(i).match(/^[a-z]*/)![0];
+      i += flags.length;
+      tokens.push({ type: 'regex', pattern, flags, start, end: i });
+      continue;
+    }
+
+    const start = i;
+    while (i < input.length && !/[\s()]/.test(input[i])) i++;
+    const value = input.slice(start, i);
+    if (value === 'OR' || value === 'AND' || value === 'NOT') {
+      tokens.push({ type: value.toLowerCase() as 'or' | 'and' | 'not', start, end: i });
+    } else {
+      tokens.push({ type: 'word', value, start, end: i });
+    }
+  }
+
+  return tokens;
+}
+
+function parseDate(value: string, start: number, end: number): string {
+  if (!/^\d{4}(-\d{2}(-\d{2})?)?$/.test(value)) {
+    throw new QueryParseError(`Expected a date like 2021, 2021-06 or 2021-06-30, got "${value}"`, start, end);
+  }
+  const [y, m = 1, d = 1] = value.split('-').map(Number);
+  const date = new Date(Date.UTC(y, m - 1, d));
+  if (date.getUTCMonth() !== m - 1 || date.getUTCDate() !== d) {
+    throw new QueryParseError(`"${value}" is not a valid date`, start, end);
+  }
+  return value;
+}
+
+function parseTerm(token: Extract<Token, { type: 'word' }>): QueryNode {
+  const { value, start, end } = token;
+  const span: [number, number] = [start, end];
+
+  if (value.startsWith('@') && value.length > 1) return { kind: 'mention', value: value.slice(1).toLowerCase(), span };
+  if (value.startsWith('#') && value.length > 1) return { kind: 'hashtag', value: value.slice(1).toLowerCase(), span };
+
+  const field = value.match(/^([a-z]+):(.*)$/i);
+  if (!field || field[2].startsWith('//')) {
+    const prefix = value.endsWith('*') && value.length > 1;
+    return { kind: 'text', value: prefix ? value.slice(0, -1) : value, phrase: false, prefix, span };
+  }
+
+  const name = field[1].toLowerCase();
+  const arg = field[2];
+  const argStart = start + field[1].length + 1;
+  if (!arg) throw new QueryParseError(`Missing value after "${name}:"`, start, end);
+
+  switch (name) {
+    case 'from':
+    case 'to':
+      return { kind: 'date', bound: name, value: parseDate(arg, argStart, end), span };
+    case 'older':
+    case 'newer': {
+      const m = arg.match(/^(\d+)([dwmy])$/i);
+      if (!m) throw new QueryParseError(`Expected an age like ${name}:30d, ${name}:6m or ${name}:2y`, argStart, end);
+      return { kind: 'age', bound: name, amount: parseInt(m[1], 10), unit: m[2].toLowerCase() as AgeUnit, span };
+    }
+    case 'type': {
+      const type = arg.toLowerCase() as PostType;
+      if (!POST_TYPES.includes(type)) throw new QueryParseError(`Unknown type "${arg}", expected one of ${POST_TYPES.join(', ')}`, argStart, end);
+      return { kind: 'type', value: type, span };
+    }
+    case 'has': {
+      const has = arg.toLowerCase().replace(/s$/, '') as typeof HAS_VALUES[number];
+      if (!HAS_VALUES.includes(has)) throw new QueryParseError(`Unknown has: value "${arg}", expected one of ${HAS_VALUES.join(', ')}`, argStart, end);
+      return { kind: 'has', value: has, span };
+    }
+    case 'lang':
+      return { kind: 'lang', value: arg.toLowerCase(), span };
+    case 'mention':
+      return { kind: 'mention', value: arg.replace(/^@/, '').toLowerCase(), span };
+    case 'hashtag':
+      return { kind: 'hashtag', value: arg.replace(/^#/, '').toLowerCase(), span };
+    case 'domain':
+      return { kind: 'domain', value: arg.toLowerCase().replace(/^www\./, ''), span };
+    case 'replyto':
+      return { kind: 'replyto', value: arg.replace(/^@/, '').toLowerCase(), span };
+    case 'likes':
+    case 'reposts':
+    case 'retweets': {
+      const m = arg.match(/^(<=|>=|<|>|=)?(\d+)$/);
+      if (!m) throw new QueryParseError(`Expected a number like ${name}:<5 or ${name}:>=100`, argStart, end);
+      return { kind: 'metric', metric: METRIC_FIELDS[name], op: (m[1] || '=') as MetricOp, value: parseInt(m[2], 10), span };
+    }
+    default:
+      throw new QueryParseError(`Unknown operator "${name}:"`, start, argStart);
+  }
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[], private readonly length: number) {}
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  parse(): QueryNode | null {
+    if (this.tokens.length === 0) return null;
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) throw new QueryParseError(extra.type === 'rparen' ? 'Unmatched closing parenthesis' : 'Unexpected input', extra.start, extra.end);
+    return node;
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+    while (this.peek()?.type === 'or') {
+      this.pos++;
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { kind: 'or', children };
+  }
+
+  private parseAnd(): QueryNode {
+    const children = [this.parseUnary()];
+    while (true) {
+      const next = this.peek();
+      if (!next || next.type === 'or' || next.type === 'rparen') break;
+      if (next.type === 'and') this.pos++;
+      children.push(this.parseUnary());
+    }
+    return children.length === 1 ? children[0] : { kind: 'and', children };
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.peek();
+    if (token?.type === 'minus' || token?.type === 'not') {
+      this.pos++;
+      return { kind: 'not', child: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.peek();
+    if (!token) throw new QueryParseError('Query ends unexpectedly', this.length, this.length);
+    this.pos++;
+
+    switch (token.type) {
+      case 'lparen': {
+        const inner = this.parseOr();
+        if (this.peek()?.type !== 'rparen') throw new QueryParseError('Missing closing parenthesis', token.start, this.length);
+        this.pos++;
+        return inner;
+      }
+      case 'phrase':
+        if (!token.value.trim()) throw new QueryParseError('Empty phrase', token.start, token.end);
+        return { kind: 'text', value: token.value, phrase: true, prefix: false, span: [token.start, token.end] };
+      case 'regex':
+        try {
+          new RegExp(token.pattern, token.flags);
+        } catch (e) {
+          throw new QueryParseError(`Invalid regex: ${(e as Error).message}`, token.start, token.end);
+        }
+        return { kind: 'regex', pattern: token.pattern, flags: token.flags, span: [token.start, token.end] };
+      case 'word':
+        return parseTerm(token);
+      case 'rparen':
+        throw new QueryParseError('Unmatched closing parenthesis', token.start, token.end);
+      default:
+        throw new QueryParseError(`${token.type.toUpperCase()} needs a term on both sides`, token.start, token.end);
+    }
+  }
+}
+
+export function parseQuery(input: string): QueryNode | null {
+  return new Parser(tokenize(input), input.length).parse();
+}
+
+// --- Evaluation ---
+
+type Predicate = (post: XPost, time: number) => boolean;
+
+// Calendar days are taken in `timeZone`; relative ages count back from `asOf`.
+export interface DateContext {
+  timeZone: string;
+  asOf: number;
+}
+
+export const dateContext = (filters: Pick<ArchiveFilter, 'timeZone' | 'asOf'>): DateContext =>
+  ({ timeZone: filters.timeZone, asOf: filters.asOf ?? Date.now() });
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word match: the term may not be glued to letters, digits or underscores.
+export function textPattern(node: Extract<QueryNode, { kind: 'text' }>): RegExp {
+  const body = node.value.trim().split(/\s+/).map(escapeRegex).join('\\s+');
+  return new RegExp(`(?<![\\p{L}\\p{N}_])${body}${node.prefix ? '' : '(?![\\p{L}\\p{N}_])'}`, 'iu');
+}
+
+// Date bounds are whole calendar periods: from:2019 starts on Jan 1, to:2021 runs through Dec 31.
+function dateBound(node: Extract<QueryNode, { kind: 'date' }>, { timeZone }: DateContext): number {
+  const parts = node.value.split('-').map(Number);
+  const [y, m = 1, d = 1] = parts;
+  if (node.bound === 'from') return startOfDay(y, m, d, timeZone);
+  if (parts.length === 1) return startOfDay(y + 1, 1, 1, timeZone);
+  if (parts.length === 2) return startOfDay(y, m + 1, 1, timeZone);
+  return startOfDay(y, m, d + 1, timeZone);
+}
+
+// Ages are whole days too: on June 15, older:1m means before May 15 and newer:1m from May 15 on.
+function ageBound(node: Extract<QueryNode, { kind: 'age' }>, { timeZone, asOf }: DateContext): number {
+  const { year, month, day } = daysAgo(asOf, node.amount, node.unit, timeZone);
+  return startOfDay(year, month, day, timeZone);
+}
+
+const compareMetric = (actual: number, op: MetricOp, expected: number) => {
+  switch (op) {
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    default: return actual === expected;
+  }
+};
+
+export function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+export function compileQuery(node: QueryNode | null, context: DateContext = { timeZone: localTimeZone(), asOf: Date.now() }): Predicate {
+  if (!node) return () => true;
+
+  switch (node.kind) {
+    case 'and': {
+      const children = node.children.map(c => compileQuery(c, context));
+      return (post, time) => children.every(c => c(post, time));
+    }
+    case 'or': {
+      const children = node.children.map(c => compileQuery(c, context));
+      return (post, time) => children.some(c => c(post, time));
+    }
+    case 'not': {
+      const child = compileQuery(node.child, context);
+      return (post, time) => !child(post, time);
+    }
+    case 'text': {
+      const pattern = textPattern(node);
+      return post => pattern.test(post.full_text);
+    }
+    case 'regex': {
+      const pattern = new RegExp(node.pattern, node.flags.replace(/[gy]/g, ''));
+      return post => pattern.test(post.full_text);
+    }
+    case 'date': {
+      const bound = dateBound(node, context);
+      return node.bound === 'from' ? (_, time) => time >= bound : (_, time) => time < bound;
+    }
+    case 'age': {
+      const bound = ageBound(node, context);
+      return node.bound === 'newer' ? (_, time) => time >= bound : (_, time) => time < bound;
+    }
+    case 'type':
+      return post => post.type === node.value;
+    case 'has':
+      switch (node.value) {
+        case 'link': return post => post.urls.length > 0;
+        case 'media': return post => post.media.length > 0;
+        case 'photo': return post => post.media.some(m => m.type === 'photo');
+        case 'video': return post => post.media.some(m => m.type !== 'photo');
+        case 'hashtag': return post => post.hashtags.length > 0;
+        case 'mention': return post => post.mentions.length > 0;
+      }
+      break;
+    case 'lang':
+      return post => post.lang?.toLowerCase() === node.value;
+    case 'mention':
+      return post => post.mentions.some(m => m.screen_name.toLowerCase() === node.value);
+    case 'hashtag':
+      return post => post.hashtags.some(h => h.toLowerCase() === node.value);
+    case 'domain':
+      return post => post.urls.some(u => {
+        const host = hostOf(u.expanded_url);
+        return host === node.value || host.endsWith(`.${node.value}`);
+      });
+    case 'replyto':
+      return post => post.reply_to_screen_name?.toLowerCase() === node.value || post.reply_to_user_id === node.value;
+    case 'metric':
+      return post => compareMetric(node.metric === 'likes' ? post.favorite_count : post.retweet_count, node.op, node.value);
+  }
+  return () => false;
+}
+
+// --- Formatting and the visual builder ---
+
+function formatNode(node: QueryNode, parent: QueryNode['kind'] | null): string {
+  switch (node.kind) {
+    case 'and': {
+      const text = node.children.map(c => formatNode(c, 'and')).join(' ');
+      return parent === 'not' ? `(${text})` : text;
+    }
+    case 'or': {
+      if (node.children.length === 0) return '()';
+      const text = node.children.map(c => formatNode(c, 'or')).join(' OR ');
+      return parent && node.children.length > 1 ? `(${text})` : text;
+    }
+    case 'not':
+      return `-${formatNode(node.child, 'not')}`;
+    case 'text':
+      return node.phrase || /[\s()":]/.test(node.value) || /^(OR|AND|NOT)$/.test(node.value)
+        ? `"${node.value.replace(/"/g, '\\"')}"`
+        : `${node.value}${node.prefix ? '*' : ''}`;
+    case 'regex':
+      return `regex:/${node.pattern}/${node.flags}`;
+    case 'date':
+      return `${node.bound}:${node.value}`;
+    case 'age':
+      return `${node.bound}:${node.amount}${node.unit}`;
+    case 'type':
+    case 'has':
+    case 'lang':
+    case 'domain':
+    case 'replyto':
+      return `${node.kind}:${node.value}`;
+    case 'mention':
+      return `@${node.value}`;
+    case 'hashtag':
+      return `#${node.value}`;
+    case 'metric':
+      return `${node.metric}:${node.op === '=' ? '' : node.op}${node.value}`;
+  }
+}
+
+export function formatQuery(node: QueryNode | null): string {
+  return node ? formatNode(node, null) : '';
+}
+
+export function keywordNode(keywords: string[]): QueryNode | null {
+  if (keywords.length === 0) return null;
+  const children: QueryNode[] = keywords.map(k => ({ kind: 'text', value: k, phrase: /\s/.test(k), prefix: false }));
+  return children.length === 1 ? children[0] : { kind: 'or', children };
+}
+
+// The sidebar controls are a visual builder over the same AST the query box produces.
+export function builderQuery(filters: ArchiveFilter): QueryNode | null {
+  const children: QueryNode[] = [];
+  if (filters.relative) {
+    children.push({ kind: 'age', ...filters.relative });
+  } else {
+    if (filters.dateFrom) children.push({ kind: 'date', bound: 'from', value: filters.dateFrom });
+    if (filters.dateTo) children.push({ kind: 'date', bound: 'to', value: filters.dateTo });
+  }
+  // Like an empty keyword list, no selected type means no type restriction; an empty
+  // group would format as "()", which the query box cannot read back.
+  const excludedTypes = POST_TYPES.filter(t => !filters.postTypes.includes(t));
+  if (filters.postTypes.length > 0 && excludedTypes.length > 0) {
+    // Likes are off by default, so "-type:like" reads better than listing every other type.
+    const typeNodes = (types: PostType[]): QueryNode => ({ kind: 'or', children: types.map(value => ({ kind: 'type', value })) });
+    children.push(excludedTypes.length < filters.postTypes.length
+      ? { kind: 'not', child: typeNodes(excludedTypes) }
+      : typeNodes(filters.postTypes));
+  }
+  filters.requires.forEach(value => children.push({ kind: 'has', value }));
+  if (filters.recipients.length > 0) {
+    children.push({ kind: 'or', children: filters.recipients.map(value => ({ kind: 'replyto', value })) });
+  }
+  const keywords = keywordNode(filters.keywords);
+  if (keywords) children.push(keywords);
+
+  if (children.length === 0) return null;
+  return children.length === 1 ? children[0] : { kind: 'and', children };
+}
+
+export function combineQueries(...nodes: (QueryNode | null)[]): QueryNode | null {
+  const present = nodes.filter((n): n is QueryNode => n !== null);
+  if (present.length === 0) return null;
+  return present.length === 1 ? present[0] : { kind: 'and', children: present };
+}
+
+const conjuncts = (node: QueryNode | null): string[] =>
+  !node ? [] : node.kind === 'and' ? node.children.map(c => formatQuery(c)) : [formatQuery(node)];
+
+// ANDs a term onto the typed query, e.g. from a click in the analytics dashboard. AND binds
+// tighter than OR, so a query with a top-level OR is parenthesized first: "a OR b" plus
+// likes:>=10 must not become "a OR (b likes:>=10)".
+export function appendQueryTerm(query: string, term: string): string {
+  const text = query.trim();
+  if (!text) return term;
+  let node: QueryNode | null;
+  try {
+    node = parseQuery(text);
+  } catch (e) {
+    // The query box already shows the error; the term is appended as typed.
+    if (e instanceof QueryParseError) return `${text} ${term}`;
+    throw e;
+  }
+  const present = new Set(conjuncts(node));
+  if (conjuncts(parseQuery(term)).every(c => present.has(c))) return text;
+  return node?.kind === 'or' ? `(${text}) ${term}` : `${text} ${term}`;
+}
+
+// Patterns for the positive text terms, used to highlight matches in the feed.
+export function highlightPatterns(node: QueryNode | null, negated = false): RegExp[] {
+  if (!node) return [];
+  switch (node.kind) {
+    case 'and':
+    case 'or':
+      return node.children.flatMap(c => highlightPatterns(c, negated));
+    case 'not':
+      return highlightPatterns(node.child, !negated);
+    case 'text':
+      return negated ? [] : [new RegExp(textPattern(node).source, 'giu')];
+    case 'regex':
+      return negated ? [] : [new RegExp(node.pattern, node.flags.includes('g') ? node.flags : `${node.flags}g`)];
+    default:
+      return [];
+  }
+}
+
+export function matchRanges(text: string, patterns: RegExp[]): [number, number][] {
+  const ranges: [number, number][] = [];
+  patterns.forEach(pattern => {
+    pattern.lastIndex = 0;
+    for (const m of text.matchAll(pattern)) {
+      if (m[0].length > 0) ranges.push([m.index!, m.index! + m[0].length]);
+    }
+  });
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const merged: [number, number][] = [];
+  ranges.forEach(([s, e]) => {
+    const last = merged[merged.length - 1];
+    if (last && s <= last[1]) last[1] = Math.max(last[1], e);
+    else merged.push([s, e]);
+  });
+  return merged;
+}
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createRateLimiters, estimatePurgeEnd, parseRateLimitHeaders, RateLimiter } from "./rateLimiter";
+import { makePost } from "./testUtils";
+
+const START = Date.parse("2024-01-01T00:00:00Z");
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(START);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("RateLimiter", () => {
+  it("refills its bucket at the profile's rate", () => {
+    // Standard: 10 deletions a minute, a burst of 1.
+    const limiter = new RateLimiter("standard");
+    expect(limiter.nextSlotAt()).toBe(START);
+
+    limiter.consume();
+    expect(limiter.nextSlotAt()).toBe(START + 6000);
+
+    vi.advanceTimersByTime(3000);
+    expect(limiter.nextSlotAt()).toBe(START + 6000);
+
+    vi.advanceTimersByTime(3000);
+    expect(limiter.nextSlotAt()).toBe(Date.now());
+  });
+
+  it("never banks more than the burst size", () => {
+    const limiter = new RateLimiter("max-allowed");
+    vi.advanceTimersByTime(10 * 60_000);
+    for (let i = 0; i < 5; i++) limiter.consume();
+    expect(limiter.nextSlotAt()).toBe(Date.now() + 1000);
+  });
+
+  it("meters unlikes more tightly than deletions", () => {
+    const limiter = new RateLimiter("standard", "unlike");
+    limiter.consume();
+    expect(limiter.nextSlotAt()).toBe(START + 20_000);
+  });
+
+  it("spreads the server's remaining budget over its window", () => {
+    const headers = new Headers({ "x-rate-limit-limit": "50", "x-rate-limit-remaining": "4", "x-rate-limit-reset": String((START + 60_000) / 1000) });
+    const rateLimit = parseRateLimitHeaders(headers);
+    expect(rateLimit).toEqual({ limit: 50, remaining: 4, resetAt: START + 60_000 });
+
+    // Max Allowed spends the whole budget: 4 requests over 60s means one every 15s.
+    const limiter = new RateLimiter("max-allowed");
+    limiter.consume();
+    limiter.record({ status: "deleted", rateLimit });
+    expect(limiter.nextSlotAt()).toBe(START + 15_000);
+  });
+
+  it("waits for the reset once the server budget is spent", () => {
+    const limiter = new RateLimiter("max-allowed");
+    limiter.consume();
+    limiter.record({ status: "deleted", rateLimit: { remaining: 0, resetAt: START + 90_000 } });
+    expect(limiter.nextSlotAt()).toBe(START + 90_000);
+
+    vi.setSystemTime(START + 90_000);
+    expect(limiter.nextSlotAt()).toBe(START + 90_000);
+  });
+
+  it("ignores incomplete rate-limit headers", () => {
+    expect(parseRateLimitHeaders(new Headers({ "x-rate-limit-remaining": "4" }))).toBeUndefined();
+  });
+
+  it("backs off exponentially with full jitter and resets after a success", () => {
+    const random = vi.fn(() => 1);
+    const limiter = new RateLimiter("max-allowed", "delete", random);
+
+    limiter.record({ status: "error", message: "HTTP 503" });
+    expect(limiter.nextSlotAt()).toBe(START + 4000);
+    limiter.record({ status: "error", message: "HTTP 503" });
+    expect(limiter.nextSlotAt()).toBe(START + 8000);
+
+    random.mockReturnValue(0);
+    limiter.record({ status: "error", message: "HTTP 503" });
+    expect(limiter.nextSlotAt()).toBe(START);
+
+    limiter.record({ status: "deleted" });
+    random.mockReturnValue(1);
+    limiter.record({ status: "error", message: "HTTP 503" });
+    expect(limiter.nextSlotAt()).toBe(START + 4000);
+  });
+
+  it("caps the backoff at 15 minutes", () => {
+    const limiter = new RateLimiter("max-allowed", "delete", () => 1);
+    for (let i = 0; i < 20; i++) limiter.record({ status: "error", message: "HTTP 500" });
+    expect(limiter.nextSlotAt()).toBe(START + 15 * 60_000);
+  });
+
+  it("waits at least until the retry time of a 429", () => {
+    const limiter = new RateLimiter("max-allowed", "delete", () => 0);
+    limiter.record({ status: "rate-limited", retryAt: START + 120_000 });
+    expect(limiter.nextSlotAt()).toBe(START + 120_000);
+  });
+});
+
+describe("estimatePurgeEnd", () => {
+  it("ends when the slower of deletions and unlikes drains", () => {
+    const limiters = createRateLimiters("standard");
+    const deletes = Array.from({ length: 11 }, (_, i) => makePost({ id: String(i) }));
+    const likes = Array.from({ length: 4 }, (_, i) => makePost({ id: `like-${i}`, type: "like" }));
+
+    // 11 deletions at 6s spacing: the first now, the last 60s later.
+    expect(estimatePurgeEnd(limiters, deletes)).toBe(START + 60_000);
+    // 4 unlikes at 20s spacing finish at the same time as 11 deletions.
+    expect(estimatePurgeEnd(limiters, [...deletes, ...likes])).toBe(START + 60_000);
+    expect(estimatePurgeEnd(limiters, [...deletes, ...likes, ...likes])).toBe(START + 140_000);
+    expect(estimatePurgeEnd(limiters, [])).toBe(START);
+  });
+
+  it("follows server pacing when it is slower than the profile", () => {
+    const limiters = createRateLimiters("max-allowed");
+    limiters.delete.consume();
+    limiters.delete.record({ status: "deleted", rateLimit: { remaining: 2, resetAt: START + 60_000 } });
+    const posts = Array.from({ length: 3 }, (_, i) => makePost({ id: String(i) }));
+    // One request every 30s, the next at 30s.
+    expect(estimatePurgeEnd(limiters, posts)).toBe(START + 90_000);
+  });
+});
@@ -0,0 +1,121 @@
+import { XPost, DeleteOutcome, RateLimitInfo, RateLimitProfile, PurgeOperation } from "../types";
+
+interface ProfileSettings {
+  label: string;
+  perMinute: number;
+  // X meters unlikes separately and more tightly than deletions.
+  unlikePerMinute: number;
+  burst: number;
+  // Share of the server-reported remaining budget this profile is willing to spend.
+  budgetShare: number;
+}
+
+export const RATE_LIMIT_PROFILES: Record<RateLimitProfile, ProfileSettings> = {
+  conservative: { label: 'Conservative', perMinute: 5, unlikePerMinute: 2, burst: 1, budgetShare: 0.5 },
+  standard: { label: 'Standard', perMinute: 10, unlikePerMinute: 3, burst: 1, budgetShare: 0.9 },
+  'max-allowed': { label: 'Max Allowed', perMinute: 60, unlikePerMinute: 10, burst: 5, budgetShare: 1 }
+};
+
+const BACKOFF_BASE_MS = 2000;
+const BACKOFF_MAX_MS = 15 * 60_000;
+
+export function parseRateLimitHeaders(headers: Headers): RateLimitInfo | undefined {
+  const remaining = parseInt(headers.get('x-rate-limit-remaining') || '', 10);
+  const reset = parseInt(headers.get('x-rate-limit-reset') || '', 10);
+  if (isNaN(remaining) || isNaN(reset)) return undefined;
+  const limit = parseInt(headers.get('x-rate-limit-limit') || '', 10);
+  return { limit: isNaN(limit) ? undefined : limit, remaining, resetAt: reset * 1000 };
+}
+
+// Token bucket sized by the chosen profile, further throttled by whatever budget the
+// server reports and by exponential backoff (with full jitter) after 429/5xx responses.
+export class RateLimiter {
+  private readonly settings: ProfileSettings;
+  private readonly perMinute: number;
+  private tokens: number;
+  private lastRefill: number;
+  private server: RateLimitInfo | null = null;
+  private lastRequestAt = 0;
+  private backoffUntil = 0;
+  private consecutiveFailures = 0;
+
+  constructor(
+    readonly profile: RateLimitProfile,
+    readonly operation: PurgeOperation = 'delete',
+    private readonly random: () => number = Math.random
+  ) {
+    this.settings = RATE_LIMIT_PROFILES[profile];
+    this.perMinute = operation === 'unlike' ? this.settings.unlikePerMinute : this.settings.perMinute;
+    this.tokens = this.settings.burst;
+    this.lastRefill = Date.now();
+  }
+
+  private get intervalMs(): number {
+    return 60_000 / this.perMinute;
+  }
+
+  private refill(now: number) {
+    this.tokens = Math.min(this.settings.burst, this.tokens + Math.max(0, now - this.lastRefill) / this.intervalMs);
+    this.lastRefill = now;
+  }
+
+  // Minimum spacing needed to spread the remaining server budget across its window.
+  private serverPacingMs(now: number): number {
+    if (!this.server || now >= this.server.resetAt) return 0;
+    const usable = Math.floor(this.server.remaining * this.settings.budgetShare);
+    if (usable <= 0) return this.server.resetAt - now;
+    return (this.server.resetAt - now) / usable;
+  }
+
+  nextSlotAt(now = Date.now()): number {
+    this.refill(now);
+    const bucketReadyAt = this.tokens >= 1 ? now : now + (1 - this.tokens) * this.intervalMs;
+    const serverReadyAt = this.lastRequestAt + this.serverPacingMs(now);
+    return Math.max(bucketReadyAt, serverReadyAt, this.backoffUntil, now);
+  }
+
+  consume(now = Date.now()) {
+    this.refill(now);
+    this.tokens = Math.max(0, this.tokens - 1);
+    this.lastRequestAt = now;
+  }
+
+  record(outcome: DeleteOutcome, now = Date.now()) {
+    if (outcome.rateLimit) this.server = outcome.rateLimit;
+
+    if (outcome.status === 'rate-limited' || outcome.status === 'error') {
+      this.consecutiveFailures += 1;
+      const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** this.consecutiveFailures);
+      const jittered = now + this.random() * ceiling;
+      this.backoffUntil = outcome.status === 'rate-limited' ? Math.max(outcome.retryAt, jittered) : jittered;
+    } else {
+      this.consecutiveFailures = 0;
+      this.backoffUntil = 0;
+    }
+  }
+
+  // Steady-state estimate for draining `count` more requests from the next slot onwards.
+  estimateCompletion(count: number, now = Date.now()): number {
+    if (count <= 0) return now;
+    const spacing = Math.max(this.intervalMs, this.serverPacingMs(now));
+    return this.nextSlotAt(now) + (count - 1) * spacing;
+  }
+}
+
+export const PURGE_OPERATIONS: PurgeOperation[] = ['delete', 'unlike'];
+
+export const operationOf = (post: XPost): PurgeOperation => (post.type === 'like' ? 'unlike' : 'delete');
+
+// One limiter per operation, so a throttled unlike queue never holds up deletions.
+export type RateLimiters = Record<PurgeOperation, RateLimiter>;
+
+export function createRateLimiters(profile: RateLimitProfile): RateLimiters {
+  return { delete: new RateLimiter(profile, 'delete'), unlike: new RateLimiter(profile, 'unlike') };
+}
+
+// Both operations drain in parallel, so the purge ends when the slower one does.
+export function estimatePurgeEnd(limiters: RateLimiters, posts: XPost[], now = Date.now()): number {
+  return Math.max(now, ...PURGE_OPERATIONS.map(operation =>
+    limiters[operation].estimateCompletion(posts.filter(post => operationOf(post) === operation).length, now)
+  ));
+}
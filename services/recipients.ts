@@ -0,0 +1,74 @@
+import { XPost } from "../types";
+
+// Groups replies by the account they answered, for "remove every reply I sent to X" cleanups.
+// Self-threads answer our own account and are left out.
+
+export interface ReplyRecipient {
+  // The user id, or the lower-cased screen name when the archive recorded no id.
+  key: string;
+  userId: string | null;
+  screenName: string | null;
+  replies: number;
+  firstAt: number;
+  lastAt: number;
+  // Whether following.js lists the account; null when no following.js was imported.
+  following: boolean | null;
+}
+
+export type RecipientSort = 'replies' | 'recent' | 'oldest' | 'name';
+
+export const RECIPIENT_SORTS: { sort: RecipientSort; label: string }[] = [
+  { sort: 'replies', label: 'Most replies' },
+  { sort: 'recent', label: 'Most recent' },
+  { sort: 'oldest', label: 'Oldest' },
+  { sort: 'name', label: 'Name' }
+];
+
+export function recipientKey(post: XPost): string | null {
+  return post.reply_to_user_id || post.reply_to_screen_name?.toLowerCase() || null;
+}
+
+export function summarizeRecipients(posts: XPost[], following: Set<string> | null): ReplyRecipient[] {
+  const recipients = new Map<string, ReplyRecipient>();
+  posts.forEach(post => {
+    if (post.type !== 'reply') return;
+    const key = recipientKey(post);
+    if (!key) return;
+    const time = new Date(post.created_at).getTime();
+    const recipient = recipients.get(key) ?? {
+      key,
+      userId: post.reply_to_user_id ?? null,
+      screenName: null,
+      replies: 0,
+      firstAt: time,
+      lastAt: time,
+      following: following && post.reply_to_user_id ? following.has(post.reply_to_user_id) : null
+    };
+    recipient.replies += 1;
+    recipient.firstAt = Math.min(recipient.firstAt, time);
+    // Accounts get renamed; the name on the latest reply is the most current one.
+    const screenName = post.reply_to_screen_name
+      || post.mentions.find(m => m.id && m.id === post.reply_to_user_id)?.screen_name;
+    if (screenName && (time >= recipient.lastAt || !recipient.screenName)) recipient.screenName = screenName;
+    recipient.lastAt = Math.max(recipient.lastAt, time);
+    recipients.set(key, recipient);
+  });
+  return [...recipients.values()];
+}
+
+export function sortRecipients(recipients: ReplyRecipient[], sort: RecipientSort): ReplyRecipient[] {
+  const name = (r: ReplyRecipient) => (r.screenName ?? r.key).toLowerCase();
+  const compare: (a: ReplyRecipient, b: ReplyRecipient) => number = {
+    replies: (a, b) => b.replies - a.replies,
+    recent: (a, b) => b.lastAt - a.lastAt,
+    oldest: (a, b) => a.firstAt - b.firstAt,
+    name: (a, b) => name(a).localeCompare(name(b))
+  }[sort];
+  return [...recipients].sort((a, b) => compare(a, b) || name(a).localeCompare(name(b)));
+}
+
+export function searchRecipients(recipients: ReplyRecipient[], search: string): ReplyRecipient[] {
+  const term = search.trim().replace(/^@/, '').toLowerCase();
+  if (!term) return recipients;
+  return recipients.filter(r => (r.screenName ?? '').toLowerCase().includes(term) || r.key.includes(term));
+}
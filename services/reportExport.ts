@@ -0,0 +1,219 @@
+import { XPost, AuditResult, PostType, RiskLevel } from "../types";
+import { RISK_LEVELS } from "./auditPrompt";
+import { statusUrl } from "./archiveImporter";
+import { formatZonedDateTime } from "./timeZone";
+
+// Turns the current purge candidates into reviewable documents. Every format carries
+// the same rows, so a list signed off as HTML matches the CSV and JSON exactly.
+
+export interface ReportRow {
+  id: string;
+  url: string;
+  // In the report's time zone, so its date and year match the feed and the filters.
+  createdAt: string;
+  type: PostType;
+  text: string;
+  replyTo: string | null;
+  favorites: number;
+  reposts: number;
+  // Whether the post is in the current purge selection; kept posts never are.
+  selected: boolean;
+  kept: boolean;
+  riskLevel: RiskLevel | null;
+  sentiment: string | null;
+  categories: string[];
+  confidence: number | null;
+  reason: string | null;
+  privacyFindings: string[];
+}
+
+export interface ReportSummary {
+  total: number;
+  selected: number;
+  kept: number;
+  byType: Partial<Record<PostType, number>>;
+  // "Unaudited" counts posts without an audit result.
+  byRisk: Record<string, number>;
+  byYear: Record<string, number>;
+}
+
+export interface PurgeReport {
+  generatedAt: string;
+  timeZone: string;
+  account: string | null;
+  criteria: string;
+  summary: ReportSummary;
+  posts: ReportRow[];
+}
+
+export interface ReportInput {
+  posts: XPost[];
+  audits: Map<string, AuditResult>;
+  privacy?: Map<string, AuditResult>;
+  // The purge selection, which already excludes the keep list.
+  targetIds: Set<string>;
+  keepList: Set<string>;
+  account: string | null;
+  criteria: string;
+  // The zone selected under Date Range.
+  timeZone: string;
+}
+
+const UNAUDITED = 'Unaudited';
+
+export function buildReport({ posts, audits, privacy, targetIds, keepList, account, criteria, timeZone }: ReportInput): PurgeReport {
+  const rows: ReportRow[] = posts.map(post => {
+    const audit = audits.get(post.id);
+    return {
+      id: post.id,
+      url: statusUrl(post.id),
+      createdAt: formatZonedDateTime(new Date(post.created_at).getTime(), timeZone),
+      type: post.type,
+      text: post.full_text,
+      replyTo: post.reply_to_screen_name ?? null,
+      favorites: post.favorite_count,
+      reposts: post.retweet_count,
+      selected: targetIds.has(post.id),
+      kept: keepList.has(post.id),
+      riskLevel: audit?.riskLevel ?? null,
+      sentiment: audit?.sentiment ?? null,
+      categories: audit?.categories ?? [],
+      confidence: audit?.confidence ?? null,
+      reason: audit?.reason ?? null,
+      privacyFindings: [...new Set((privacy?.get(post.id)?.spans || []).map(s => s.label || s.category))]
+    };
+  });
+
+  const summary: ReportSummary = { total: rows.length, selected: 0, kept: 0, byType: {}, byRisk: {}, byYear: {} };
+  [...[...RISK_LEVELS].reverse(), UNAUDITED].forEach(level => (summary.byRisk[level] = 0));
+  rows.forEach(row => {
+    if (row.selected) summary.selected++;
+    if (row.kept) summary.kept++;
+    summary.byType[row.type] = (summary.byType[row.type] || 0) + 1;
+    summary.byRisk[row.riskLevel ?? UNAUDITED]++;
+    const year = row.createdAt.slice(0, 4);
+    summary.byYear[year] = (summary.byYear[year] || 0) + 1;
+  });
+
+  return { generatedAt: formatZonedDateTime(Date.now(), timeZone), timeZone, account, criteria, summary, posts: rows };
+}
+
+export function reportToJson(report: PurgeReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+const CSV_COLUMNS: { header: string; value: (row: ReportRow) => string | number | boolean | null }[] = [
+  { header: 'id', value: r => r.id },
+  { header: 'url', value: r => r.url },
+  { header: 'created_at', value: r => r.createdAt },
+  { header: 'type', value: r => r.type },
+  { header: 'reply_to', value: r => r.replyTo },
+  { header: 'text', value: r => r.text },
+  { header: 'favorites', value: r => r.favorites },
+  { header: 'reposts', value: r => r.reposts },
+  { header: 'selected_for_purge', value: r => r.selected },
+  { header: 'kept', value: r => r.kept },
+  { header: 'risk_level', value: r => r.riskLevel },
+  { header: 'sentiment', value: r => r.sentiment },
+  { header: 'categories', value: r => r.categories.join('; ') },
+  { header: 'confidence', value: r => r.confidence },
+  { header: 'audit_reason', value: r => r.reason },
+  { header: 'privacy_findings', value: r => r.privacyFindings.join('; ') }
+];
+
+// Quotes per RFC 4180 and defuses cells a spreadsheet would evaluate as a formula.
+function csvCell(value: string | number | boolean | null): string {
+  if (value === null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Starts with a byte order mark so Excel reads the file as UTF-8.
+export function reportToCsv(report: PurgeReport): string {
+  const lines = [CSV_COLUMNS.map(c => c.header).join(',')];
+  report.posts.forEach(row => lines.push(CSV_COLUMNS.map(c => csvCell(c.value(row))).join(',')));
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+function countTable(title: string, counts: Record<string, number>): string {
+  const rows = Object.entries(counts)
+    .map(([key, count]) => `<tr><td>${escapeHtml(key)}</td><td class="num">${count}</td></tr>`)
+    .join('');
+  return `<table class="counts"><caption>${escapeHtml(title)}</caption>${rows || '<tr><td colspan="2">None</td></tr>'}</table>`;
+}
+
+const REPORT_CSS = `
+body { font: 14px/1.5 -apple-system, "Segoe UI", Roboto, sans-serif; color: #111; margin: 2rem; }
+h1 { margin: 0 0 .25rem; font-size: 1.5rem; }
+.meta { color: #555; margin: 0 0 1.5rem; }
+.stats { display: flex; gap: 1.5rem; flex-wrap: wrap; align-items: flex-start; margin-bottom: 2rem; }
+table { border-collapse: collapse; }
+caption { text-align: left; font-weight: 700; padding-bottom: .25rem; }
+td, th { border: 1px solid #ccc; padding: .35rem .5rem; vertical-align: top; text-align: left; }
+.counts td { min-width: 5rem; }
+.num { text-align: right; font-variant-numeric: tabular-nums; }
+.posts { width: 100%; }
+.posts td.text { white-space: pre-wrap; word-break: break-word; max-width: 40rem; }
+.kept { color: #777; }
+.risk-High { color: #b00020; font-weight: 700; }
+.risk-Medium { color: #a15c00; font-weight: 700; }
+.signoff { margin-top: 3rem; display: grid; grid-template-columns: repeat(3, 1fr); gap: 2rem; }
+.signoff div { border-top: 1px solid #111; padding-top: .25rem; color: #555; }
+@media print { body { margin: 0; } tr { break-inside: avoid; } }
+`;
+
+// A single file with inline styles and no scripts, so it can be emailed, archived or printed as is.
+export function reportToHtml(report: PurgeReport): string {
+  const { summary } = report;
+  const rows = report.posts.map(row => `<tr class="${row.kept ? 'kept' : ''}">
+<td><a href="${escapeHtml(row.url)}">${escapeHtml(row.id)}</a><br>${escapeHtml(row.createdAt.slice(0, 10))}</td>
+<td>${escapeHtml(row.type)}${row.replyTo ? `<br>to @${escapeHtml(row.replyTo)}` : ''}</td>
+<td class="text">${escapeHtml(row.text)}</td>
+<td class="${row.riskLevel ? `risk-${row.riskLevel}` : ''}">${escapeHtml(row.riskLevel ?? UNAUDITED)}${row.categories.length ? `<br>${escapeHtml(row.categories.join(', '))}` : ''}</td>
+<td>${escapeHtml(row.reason ?? '')}${row.privacyFindings.length ? `<br><strong>Privacy:</strong> ${escapeHtml(row.privacyFindings.join(', '))}` : ''}</td>
+<td>${row.kept ? 'Kept' : row.selected ? 'Purge' : 'Deselected'}</td>
+</tr>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>X-Purge review report</title>
+<style>${REPORT_CSS}</style>
+</head>
+<body>
+<h1>X-Purge review report</h1>
+<p class="meta">
+${report.account ? `Account: @${escapeHtml(report.account)}<br>` : ''}Generated: ${escapeHtml(new Date(report.generatedAt).toLocaleString(undefined, { timeZone: report.timeZone }))}<br>
+Dates in: ${escapeHtml(report.timeZone)}<br>
+Criteria: ${escapeHtml(report.criteria)}<br>
+${summary.total} matching posts, <strong>${summary.selected} selected for purge</strong>, ${summary.kept} on the keep list
+</p>
+<div class="stats">
+${countTable('By type', summary.byType as Record<string, number>)}
+${countTable('By risk', summary.byRisk)}
+${countTable('By year', summary.byYear)}
+</div>
+<table class="posts">
+<thead><tr><th>Post</th><th>Type</th><th>Text</th><th>Risk</th><th>Audit notes</th><th>Decision</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+<div class="signoff"><div>Reviewed by</div><div>Role</div><div>Date</div></div>
+</body>
+</html>
+`;
+}
+
+export type ReportFormat = 'csv' | 'json' | 'html';
+
+export const REPORT_FORMATS: Record<ReportFormat, { label: string; mimeType: string; render: (report: PurgeReport) => string }> = {
+  csv: { label: 'CSV', mimeType: 'text/csv;charset=utf-8', render: reportToCsv },
+  json: { label: 'JSON', mimeType: 'application/json', render: reportToJson },
+  html: { label: 'Report', mimeType: 'text/html;charset=utf-8', render: reportToHtml }
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { RetentionRule } from "../types";
+import { evaluateRetention } from "./retention";
+import { makePost } from "./testUtils";
+
+const rule = (id: string, action: RetentionRule['action'], query: string, olderThanDays: number | null = null): RetentionRule =>
+  ({ id, action, query, olderThanDays });
+
+describe("evaluateRetention", () => {
+  it("counts ages in calendar days of the zone, not 24-hour periods", () => {
+    // 00:30 on July 10 in Berlin; the cutoff for 1 day is the start of July 9 there.
+    const asOf = Date.parse("2021-07-09T22:30:00Z");
+    const posts = [
+      // 23:59 on July 8 in Berlin: written before July 9 began there.
+      makePost({ id: "1", created_at: "2021-07-08T21:59:00Z" }),
+      // 00:01 on July 9 in Berlin: more than 24 hours before asOf, but on the cutoff day.
+      makePost({ id: "2", created_at: "2021-07-08T22:01:00Z" })
+    ];
+    const rules = [rule("r", "delete", "", 1)];
+
+    expect(evaluateRetention(posts, rules, asOf, "Europe/Berlin").plan).toEqual([{ postId: "1", ruleId: "r" }]);
+    // In UTC asOf is still July 9, so only posts from before July 8 are older than a day.
+    expect(evaluateRetention(posts, rules, asOf, "UTC").plan).toEqual([]);
+  });
+
+  it("agrees with older: in the query language", () => {
+    const asOf = Date.parse("2021-03-28T12:00:00Z");
+    const posts = Array.from({ length: 48 }, (_, hour) =>
+      makePost({ id: String(hour), created_at: new Date(Date.parse("2021-03-25T00:00:00Z") + hour * 3_600_000).toISOString() }));
+    const byAge = evaluateRetention(posts, [rule("age", "delete", "", 2)], asOf, "Europe/Berlin");
+    const byQuery = evaluateRetention(posts, [rule("query", "delete", "older:2d")], asOf, "Europe/Berlin");
+    expect(byAge.plan.map(e => e.postId)).toEqual(byQuery.plan.map(e => e.postId));
+    // Everything before midnight on March 26 in Berlin, which is 23:00 UTC on March 25.
+    expect(byAge.plan.length).toBe(23);
+  });
+
+  it("lets keep rules win and gives each post to the first matching delete rule", () => {
+    const asOf = Date.parse("2021-07-10T12:00:00Z");
+    const posts = [
+      makePost({ id: "1", type: "reply", favorite_count: 500 }),
+      makePost({ id: "2", type: "reply" }),
+      makePost({ id: "3", type: "repost" }),
+      makePost({ id: "4", type: "tweet" })
+    ];
+    const rules = [
+      rule("keep", "keep", "likes:>100"),
+      rule("replies", "delete", "type:reply", 7),
+      rule("reposts", "delete", "type:repost OR type:reply", 7)
+    ];
+    const result = evaluateRetention(posts, rules, asOf, "UTC");
+    expect(result.plan).toEqual([{ postId: "2", ruleId: "replies" }, { postId: "3", ruleId: "reposts" }]);
+    expect(result.ruleCounts).toEqual({ keep: 1, replies: 1, reposts: 1 });
+  });
+
+  it("reports the first rule whose query does not parse", () => {
+    const result = evaluateRetention([makePost()], [rule("ok", "delete", "type:reply"), rule("bad", "delete", "(type:reply")], 0, "UTC");
+    expect(result.plan).toEqual([]);
+    expect(result.error?.ruleId).toBe("bad");
+  });
+});
@@ -0,0 +1,84 @@
+import { XPost, RetentionRule, RetentionResult, QueryError } from "../types";
+import { parseQuery, compileQuery, QueryParseError } from "./queryLanguage";
+import { daysAgo, startOfDay } from "./timeZone";
+
+// Retention policies: keep rules always win, otherwise the first matching delete rule
+// claims the post. Given the same posts, rules, asOf and time zone the plan is always identical.
+
+const RULES_KEY = "x-purge:retention";
+
+export function ruleError(rule: RetentionRule): QueryError | null {
+  try {
+    parseQuery(rule.query);
+    return null;
+  } catch (e) {
+    if (e instanceof QueryParseError) return e.toJSON();
+    throw e;
+  }
+}
+
+export function describeRule(rule: RetentionRule): string {
+  const verb = rule.action === 'keep' ? 'Keep' : 'Delete';
+  const what = rule.query.trim() || 'all posts';
+  return rule.olderThanDays != null ? `${verb} ${what} older than ${rule.olderThanDays}d` : `${verb} ${what}`;
+}
+
+// Ages count whole calendar days in the zone, like `older:`: a post is older than N days
+// when it was written before the start of the day N days before asOf's day.
+function ageCutoff(olderThanDays: number, asOf: number, timeZone: string): number {
+  const { year, month, day } = daysAgo(asOf, olderThanDays, 'd', timeZone);
+  return startOfDay(year, month, day, timeZone);
+}
+
+// Status ids are numeric strings, so shorter means older when timestamps tie.
+const compareIds = (a: string, b: string) => a.length - b.length || (a < b ? -1 : a > b ? 1 : 0);
+
+export function evaluateRetention(posts: XPost[], rules: RetentionRule[], asOf: number, timeZone: string): RetentionResult {
+  const ruleCounts: Record<string, number> = Object.fromEntries(rules.map(r => [r.id, 0]));
+
+  const compiled = [];
+  for (const rule of rules) {
+    const error = ruleError(rule);
+    if (error) return { asOf, plan: [], ruleCounts, error: { ruleId: rule.id, error } };
+    const predicate = compileQuery(parseQuery(rule.query), { timeZone, asOf });
+    const cutoff = rule.olderThanDays != null ? ageCutoff(rule.olderThanDays, asOf, timeZone) : null;
+    compiled.push({
+      rule,
+      matches: (post: XPost, time: number) => (cutoff === null || time < cutoff) && predicate(post, time)
+    });
+  }
+  const keeps = compiled.filter(c => c.rule.action === 'keep');
+  const deletes = compiled.filter(c => c.rule.action === 'delete');
+
+  const dated = posts
+    .map(post => ({ post, time: new Date(post.created_at).getTime() }))
+    .sort((a, b) => a.time - b.time || compareIds(a.post.id, b.post.id));
+
+  const plan: RetentionResult['plan'] = [];
+  dated.forEach(({ post, time }) => {
+    const deleter = deletes.find(d => d.matches(post, time));
+    if (!deleter) return;
+    const keeper = keeps.find(k => k.matches(post, time));
+    if (keeper) {
+      ruleCounts[keeper.rule.id] += 1;
+      return;
+    }
+    ruleCounts[deleter.rule.id] += 1;
+    plan.push({ postId: post.id, ruleId: deleter.rule.id });
+  });
+
+  return { asOf, plan, ruleCounts };
+}
+
+export function loadRetentionRules(): RetentionRule[] {
+  try {
+    const raw = localStorage.getItem(RULES_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveRetentionRules(rules: RetentionRule[]) {
+  localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+}
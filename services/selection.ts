@@ -0,0 +1,29 @@
+import { XPost, AuditResult, AuditCategory, RiskLevel } from "../types";
+
+// The keep list holds post ids that must never be purged, whatever the filters,
+// policies or selection say. It outlives the session so protection is not forgotten.
+
+const KEEP_LIST_KEY = "x-purge:keep-list";
+
+export type AuditSelector = { riskLevel: RiskLevel } | { category: AuditCategory };
+
+export function loadKeepList(): Set<string> {
+  try {
+    return new Set(JSON.parse(localStorage.getItem(KEEP_LIST_KEY) || "[]"));
+  } catch {
+    return new Set();
+  }
+}
+
+export function saveKeepList(ids: Set<string>) {
+  localStorage.setItem(KEEP_LIST_KEY, JSON.stringify([...ids]));
+}
+
+// Posts that have not been audited never match an audit selector.
+export function selectByAudit(posts: XPost[], audits: Map<string, AuditResult>, selector: AuditSelector): Set<string> {
+  return new Set(posts.filter(post => {
+    const audit = audits.get(post.id);
+    if (!audit) return false;
+    return 'riskLevel' in selector ? audit.riskLevel === selector.riskLevel : audit.categories.includes(selector.category);
+  }).map(post => post.id));
+}
@@ -0,0 +1,18 @@
+import { XPost } from "../types";
+
+// A post with every required field filled in, for tests that only care about a few of them.
+export function makePost(overrides: Partial<XPost> = {}): XPost {
+  return {
+    id: "1",
+    full_text: "",
+    created_at: "2021-06-30T12:00:00Z",
+    type: "tweet",
+    favorite_count: 0,
+    retweet_count: 0,
+    hashtags: [],
+    mentions: [],
+    urls: [],
+    media: [],
+    ...overrides
+  };
+}
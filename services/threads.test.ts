@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { XPost } from "../types";
+import { buildThreadIndex, orderChildrenFirst, threadFeed, threadLeafToRoot } from "./threads";
+import { makePost } from "./testUtils";
+
+const post = (id: string, minute: number, replyTo?: string) =>
+  makePost({ id, type: replyTo ? "self-thread" : "tweet", reply_to_status_id: replyTo, created_at: `2021-06-30T10:0${minute}:00Z` });
+
+// 1 ─┬─ 3 ── 4
+//    └─ 2 ── 5      9 replies to a post missing from the archive; 6 stands alone.
+const posts = [post("6", 9), post("4", 3, "3"), post("9", 8, "100"), post("1", 0), post("2", 2, "1"), post("3", 1, "1"), post("5", 4, "2")];
+const ids = (list: XPost[]) => list.map(p => p.id);
+
+describe("buildThreadIndex", () => {
+  const index = buildThreadIndex(posts);
+
+  it("orders nested self-replies parents first, siblings by time", () => {
+    expect(index.children.get("1")).toEqual(["3", "2"]);
+    expect(index.members).toEqual(new Map([["1", ["1", "3", "4", "2", "5"]]]));
+    expect(Object.fromEntries(index.depthOf)).toEqual({ 1: 0, 3: 1, 4: 2, 2: 1, 5: 2 });
+    expect(threadLeafToRoot(index, "4")).toEqual(["5", "2", "4", "3", "1"]);
+  });
+
+  it("leaves a reply whose parent is missing on its own", () => {
+    expect(index.parentOf.has("9")).toBe(false);
+    expect(index.rootOf.has("9")).toBe(false);
+    expect(threadLeafToRoot(index, "9")).toEqual(["9"]);
+  });
+});
+
+describe("orderChildrenFirst", () => {
+  it("deletes a whole thread, replies first, at the position of its first post", () => {
+    expect(ids(orderChildrenFirst(posts, buildThreadIndex(posts)))).toEqual(["6", "5", "2", "4", "3", "1", "9"]);
+  });
+});
+
+describe("threadFeed", () => {
+  const index = buildThreadIndex(posts);
+  const postIndex = new Map(posts.map(p => [p.id, p]));
+  const matching = posts.filter(p => ["6", "4", "9"].includes(p.id));
+
+  it("collapses a thread to its root where its first match appears", () => {
+    const feed = threadFeed(matching, index, postIndex, new Set());
+    expect(feed.map(e => [e.post.id, e.depth, e.rootId, e.matches])).toEqual([
+      ["6", 0, null, true],
+      ["1", 0, "1", false],
+      ["9", 0, null, true]
+    ]);
+  });
+
+  it("lists every post of an expanded thread beneath its root", () => {
+    const feed = threadFeed(matching, index, postIndex, new Set(["1"]));
+    expect(feed.map(e => [e.post.id, e.depth, e.matches])).toEqual([
+      ["6", 0, true],
+      ["1", 0, false],
+      ["3", 1, false],
+      ["4", 2, true],
+      ["2", 1, false],
+      ["5", 2, false],
+      ["9", 0, true]
+    ]);
+  });
+});
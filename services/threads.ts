@@ -0,0 +1,123 @@
+import { XPost } from "../types";
+
+// Links loaded posts into conversation trees through reply_to_status_id. Only replies whose
+// parent is in the archive are linked; a reply to someone else's post starts its own tree.
+
+export interface ThreadIndex {
+  parentOf: Map<string, string>;
+  // Replies in the order they were posted.
+  children: Map<string, string[]>;
+  rootOf: Map<string, string>;
+  depthOf: Map<string, number>;
+  // Root -> every post of the thread, parents before their replies. Only threads with replies are listed.
+  members: Map<string, string[]>;
+}
+
+export function buildThreadIndex(posts: XPost[]): ThreadIndex {
+  const byId = new Map(posts.map(p => [p.id, p]));
+  const parentOf = new Map<string, string>();
+  const children = new Map<string, string[]>();
+  posts.forEach(post => {
+    const parent = post.reply_to_status_id;
+    if (!parent || parent === post.id || !byId.has(parent)) return;
+    parentOf.set(post.id, parent);
+    const siblings = children.get(parent);
+    if (siblings) siblings.push(post.id);
+    else children.set(parent, [post.id]);
+  });
+  const time = (id: string) => new Date(byId.get(id)!.created_at).getTime();
+  children.forEach(ids => ids.sort((a, b) => time(a) - time(b)));
+
+  const rootOf = new Map<string, string>();
+  const depthOf = new Map<string, number>();
+  const members = new Map<string, string[]>();
+  posts.forEach(post => {
+    // Archives are not supposed to contain reply cycles, but a corrupt one must not hang the walk.
+    let root = post.id;
+    const seen = new Set<string>([root]);
+    while (parentOf.has(root) && !seen.has(parentOf.get(root)!)) {
+      root = parentOf.get(root)!;
+      seen.add(root);
+    }
+    if (rootOf.has(root) || !children.has(root)) return;
+
+    const ordered: string[] = [];
+    const stack: [string, number][] = [[root, 0]];
+    while (stack.length > 0) {
+      const [id, depth] = stack.pop()!;
+      if (rootOf.has(id)) continue;
+      rootOf.set(id, root);
+      depthOf.set(id, depth);
+      ordered.push(id);
+      [...(children.get(id) ?? [])].reverse().forEach(child => stack.push([child, depth + 1]));
+    }
+    members.set(root, ordered);
+  });
+
+  return { parentOf, children, rootOf, depthOf, members };
+}
+
+// Every post of the thread `id` belongs to, replies before the posts they answer.
+export function threadLeafToRoot(index: ThreadIndex, id: string): string[] {
+  const members = index.members.get(index.rootOf.get(id) ?? id);
+  return members ? [...members].reverse() : [id];
+}
+
+// Keeps each thread's posts together at its first position in `posts` and deletes replies
+// before their parents, so no purge leaves replies hanging off an already deleted post.
+export function orderChildrenFirst(posts: XPost[], index: ThreadIndex): XPost[] {
+  const byId = new Map(posts.map(p => [p.id, p]));
+  const emitted = new Set<string>();
+  const ordered: XPost[] = [];
+  posts.forEach(post => {
+    const root = index.rootOf.get(post.id);
+    if (!root) {
+      ordered.push(post);
+      return;
+    }
+    if (emitted.has(root)) return;
+    emitted.add(root);
+    threadLeafToRoot(index, root).forEach(id => {
+      const member = byId.get(id);
+      if (member) ordered.push(member);
+    });
+  });
+  return ordered;
+}
+
+export interface FeedEntry {
+  post: XPost;
+  depth: number;
+  // Root of the thread the post belongs to, if it has one.
+  rootId: string | null;
+  // False for thread posts shown for context that the filters did not match.
+  matches: boolean;
+}
+
+// Collapses each thread in the feed to its root, at the position of its first matching post.
+// Expanded threads list every post of the thread beneath the root, matching or not.
+export function threadFeed(
+  posts: XPost[],
+  index: ThreadIndex,
+  postIndex: Map<string, XPost>,
+  expanded: Set<string>
+): FeedEntry[] {
+  const matching = new Set(posts.map(p => p.id));
+  const shown = new Set<string>();
+  const entries: FeedEntry[] = [];
+  posts.forEach(post => {
+    const rootId = index.rootOf.get(post.id) ?? null;
+    if (!rootId) {
+      entries.push({ post, depth: 0, rootId: null, matches: true });
+      return;
+    }
+    if (shown.has(rootId)) return;
+    shown.add(rootId);
+    const ids = expanded.has(rootId) ? index.members.get(rootId)! : [rootId];
+    ids.forEach(id => {
+      const member = postIndex.get(id);
+      if (member) entries.push({ post: member, depth: index.depthOf.get(id) ?? 0, rootId, matches: matching.has(id) });
+    });
+  });
+  return entries;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { calendarDate, daysAgo, formatZonedDateTime, startOfDay, zonedTime } from "./timeZone";
+
+describe("startOfDay", () => {
+  it("starts the day at local midnight in the zone", () => {
+    expect(new Date(startOfDay(2021, 6, 30, "UTC")).toISOString()).toBe("2021-06-30T00:00:00.000Z");
+    expect(new Date(startOfDay(2021, 6, 30, "Europe/Berlin")).toISOString()).toBe("2021-06-29T22:00:00.000Z");
+    expect(new Date(startOfDay(2021, 1, 15, "Europe/Berlin")).toISOString()).toBe("2021-01-14T23:00:00.000Z");
+  });
+
+  it("starts a day whose midnight is skipped by DST when the clocks jump forward", () => {
+    // Chile moved from -04:00 to -03:00 at midnight on 2022-09-11, so that day began at 01:00.
+    const start = startOfDay(2022, 9, 11, "America/Santiago");
+    expect(new Date(start).toISOString()).toBe("2022-09-11T04:00:00.000Z");
+    expect(zonedTime(start, "America/Santiago")).toMatchObject({ day: 11, hour: 1, minute: 0 });
+    expect(calendarDate(start - 1, "America/Santiago")).toEqual({ year: 2022, month: 9, day: 10 });
+  });
+
+  it("keeps days 23 and 25 hours long across Berlin's DST changes", () => {
+    const HOUR = 60 * 60 * 1000;
+    expect(startOfDay(2021, 3, 29, "Europe/Berlin") - startOfDay(2021, 3, 28, "Europe/Berlin")).toBe(23 * HOUR);
+    expect(startOfDay(2021, 11, 1, "Europe/Berlin") - startOfDay(2021, 10, 31, "Europe/Berlin")).toBe(25 * HOUR);
+  });
+
+  it("rolls out-of-range days over like Date.UTC", () => {
+    expect(startOfDay(2021, 12, 32, "Europe/Berlin")).toBe(startOfDay(2022, 1, 1, "Europe/Berlin"));
+  });
+});
+
+describe("daysAgo", () => {
+  it("counts back from the day asOf falls on in the zone", () => {
+    // 23:30 UTC on June 30 is already July 1 in Berlin.
+    const asOf = Date.parse("2021-06-30T23:30:00Z");
+    expect(daysAgo(asOf, 1, "d", "UTC")).toEqual({ year: 2021, month: 6, day: 29 });
+    expect(daysAgo(asOf, 1, "d", "Europe/Berlin")).toEqual({ year: 2021, month: 6, day: 30 });
+    expect(daysAgo(asOf, 2, "w", "Europe/Berlin")).toEqual({ year: 2021, month: 6, day: 17 });
+  });
+
+  it("clamps to the end of shorter months", () => {
+    const asOf = Date.parse("2021-03-31T12:00:00Z");
+    expect(daysAgo(asOf, 1, "m", "UTC")).toEqual({ year: 2021, month: 2, day: 28 });
+    expect(daysAgo(Date.parse("2024-02-29T12:00:00Z"), 1, "y", "UTC")).toEqual({ year: 2023, month: 2, day: 28 });
+    expect(daysAgo(asOf, 15, "m", "UTC")).toEqual({ year: 2019, month: 12, day: 31 });
+  });
+});
+
+describe("formatZonedDateTime", () => {
+  it("writes the wall-clock time with the zone's offset", () => {
+    const time = Date.parse("2021-12-31T23:30:00Z");
+    expect(formatZonedDateTime(time, "UTC")).toBe("2021-12-31T23:30:00+00:00");
+    expect(formatZonedDateTime(time, "Europe/Berlin")).toBe("2022-01-01T00:30:00+01:00");
+    expect(formatZonedDateTime(time, "America/St_Johns")).toBe("2021-12-31T20:00:00-03:30");
+    expect(Date.parse(formatZonedDateTime(time, "Asia/Kolkata"))).toBe(time);
+  });
+});
@@ -0,0 +1,155 @@
+import { AgeUnit, ArchiveFilter } from "../types";
+
+// Calendar arithmetic in an explicit IANA time zone. Date bounds are whole days in the
+// selected zone, so a post at 23:30 on June 30 belongs to June 30 wherever the viewer is.
+
+const TIME_ZONE_KEY = "x-purge:time-zone";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+export const AGE_UNITS: { unit: AgeUnit; label: string }[] = [
+  { unit: 'd', label: 'days' },
+  { unit: 'w', label: 'weeks' },
+  { unit: 'm', label: 'months' },
+  { unit: 'y', label: 'years' }
+];
+
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+export function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function timeZoneOptions(): string[] {
+  const zones = typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : [];
+  return [...new Set(["UTC", localTimeZone(), ...zones])];
+}
+
+export function loadTimeZone(): string {
+  const stored = localStorage.getItem(TIME_ZONE_KEY);
+  return stored && isTimeZone(stored) ? stored : localTimeZone();
+}
+
+export function saveTimeZone(timeZone: string) {
+  localStorage.setItem(TIME_ZONE_KEY, timeZone);
+}
+
+// One formatter per zone: constructing them dominates the cost of a lookup.
+const partFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedParts(time: number, timeZone: string) {
+  let formatter = partFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      weekday: "short"
+    });
+    partFormatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, string> = {};
+  formatter.formatToParts(time).forEach(part => {
+    parts[part.type] = part.value;
+  });
+  return parts;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Wall-clock fields of an instant in the zone; weekday is 0 for Sunday, like Date#getDay.
+export function zonedTime(time: number, timeZone: string) {
+  const parts = zonedParts(time, timeZone);
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday)
+  };
+}
+
+export function calendarDate(time: number, timeZone: string): CalendarDate {
+  const { year, month, day } = zonedTime(time, timeZone);
+  return { year, month, day };
+}
+
+export const formatCalendarDate = ({ year, month, day }: CalendarDate) =>
+  `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+function offsetAt(time: number, timeZone: string): number {
+  const t = zonedTime(time, timeZone);
+  return Date.UTC(t.year, t.month - 1, t.day, t.hour, t.minute, t.second) - Math.floor(time / 1000) * 1000;
+}
+
+// ISO 8601 with the zone's offset, e.g. 2021-06-30T23:30:00+02:00: the wall-clock date
+// in the zone, yet still the exact instant.
+export function formatZonedDateTime(time: number, timeZone: string): string {
+  const t = zonedTime(time, timeZone);
+  const offset = Math.round(offsetAt(time, timeZone) / 60000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const sign = offset < 0 ? '-' : '+';
+  return `${formatCalendarDate(t)}T${pad(t.hour)}:${pad(t.minute)}:${pad(t.second)}${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+}
+
+// The instant the given calendar day starts in the zone. Out-of-range days roll over
+// like Date.UTC does, so day + 1 is the start of the next day. Where a DST jump skips
+// midnight, the day starts at the first wall-clock time that exists.
+export function startOfDay(year: number, month: number, day: number, timeZone: string): number {
+  const midnight = Date.UTC(year, month - 1, day);
+  const first = midnight - offsetAt(midnight, timeZone);
+  const offset = offsetAt(first, timeZone);
+  const start = midnight - offset;
+  if (offsetAt(start, timeZone) === offset) return start;
+  // Midnight falls in a DST gap; the day starts when the clocks jump forward.
+  return Math.max(first, start);
+}
+
+// The calendar day `amount` units before `asOf`'s day in the zone; month ends clamp,
+// so one month before March 31 is the last day of February.
+export function daysAgo(asOf: number, amount: number, unit: AgeUnit, timeZone: string): CalendarDate {
+  const { year, month, day } = calendarDate(asOf, timeZone);
+  if (unit === 'd' || unit === 'w') {
+    const shifted = new Date(Date.UTC(year, month - 1, day) - amount * (unit === 'w' ? 7 : 1) * DAY_MS);
+    return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+  }
+  const months = year * 12 + (month - 1) - amount * (unit === 'y' ? 12 : 1);
+  const targetYear = Math.floor(months / 12);
+  const targetMonth = months - targetYear * 12 + 1;
+  const lastDay = new Date(Date.UTC(targetYear, targetMonth, 0)).getUTCDate();
+  return { year: targetYear, month: targetMonth, day: Math.min(day, lastDay) };
+}
+
+export function describeAge(amount: number, unit: AgeUnit): string {
+  const label = AGE_UNITS.find(u => u.unit === unit)!.label;
+  return `${amount} ${amount === 1 ? label.slice(0, -1) : label}`;
+}
+
+// Summary of a filter's date range for preset and saved-purge listings.
+export function describeDateRange(filters: ArchiveFilter): string {
+  const { relative, asOf, timeZone } = filters;
+  const range = relative
+    ? `${relative.bound === 'older' ? 'Older than' : 'Last'} ${describeAge(relative.amount, relative.unit)}${asOf != null ? ` as of ${formatCalendarDate(calendarDate(asOf, timeZone))}` : ''}`
+    : `${filters.dateFrom || '…'} → ${filters.dateTo || '…'}`;
+  // Jobs saved before time zones existed were filtered in the browser's zone.
+  return timeZone ? `${range} (${timeZone})` : range;
+}
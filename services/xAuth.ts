@@ -0,0 +1,201 @@
+import { XSession } from "../types";
+
+const AUTHORIZE_URL = "https://x.com/i/oauth2/authorize";
+const TOKEN_URL = "https://api.x.com/2/oauth2/token";
+const REVOKE_URL = "https://api.x.com/2/oauth2/revoke";
+const ME_URL = "https://api.x.com/2/users/me";
+const SCOPES = ["tweet.read", "tweet.write", "like.write", "users.read", "offline.access"];
+
+const SESSION_KEY = "x-purge:session";
+const PENDING_KEY = "x-purge:pkce";
+const REFRESH_MARGIN_MS = 60_000;
+
+const clientId = process.env.X_CLIENT_ID || "";
+const redirectUri = () => `${window.location.origin}${window.location.pathname}`;
+
+export class XAuthError extends Error {
+  // HTTP status and OAuth error code of a failed token request.
+  constructor(message: string, readonly status?: number, readonly code?: string) {
+    super(message);
+  }
+
+  // X refused the grant itself; retrying cannot help and the stored tokens are dead.
+  get grantRejected(): boolean {
+    return this.code === "invalid_grant" || this.status === 400 || this.status === 401;
+  }
+
+  // A token request that failed for reasons unrelated to the grant, such as a 5xx.
+  get transient(): boolean {
+    return this.status !== undefined && !this.grantRejected;
+  }
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in: number;
+}
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function randomString(byteLength: number): string {
+  return base64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+async function codeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier));
+  return base64Url(new Uint8Array(digest));
+}
+
+async function requestToken(params: Record<string, string>): Promise<TokenResponse> {
+  const response = await fetch(TOKEN_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({ ...params, client_id: clientId })
+  });
+  const body = await response.json().catch(() => null);
+  if (!response.ok || !body?.access_token) {
+    throw new XAuthError(body?.error_description || body?.error || `Token request failed (HTTP ${response.status})`, response.status, body?.error);
+  }
+  return body;
+}
+
+function saveSession(session: XSession | null) {
+  if (session) localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  else localStorage.removeItem(SESSION_KEY);
+}
+
+export function loadSession(): XSession | null {
+  try {
+    const raw = localStorage.getItem(SESSION_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function beginSignIn(): Promise<void> {
+  if (!clientId) throw new XAuthError("X_CLIENT_ID is not configured.");
+
+  const verifier = randomString(48);
+  const state = randomString(16);
+  sessionStorage.setItem(PENDING_KEY, JSON.stringify({ verifier, state }));
+
+  const params = new URLSearchParams({
+    response_type: "code",
+    client_id: clientId,
+    redirect_uri: redirectUri(),
+    scope: SCOPES.join(" "),
+    state,
+    code_challenge: await codeChallenge(verifier),
+    code_challenge_method: "S256"
+  });
+  window.location.assign(`${AUTHORIZE_URL}?${params}`);
+}
+
+// Finishes the redirect leg of the flow. Returns null when the page was not opened
+// from an authorization redirect.
+export async function completeSignIn(): Promise<XSession | null> {
+  const params = new URLSearchParams(window.location.search);
+  const code = params.get("code");
+  const error = params.get("error");
+  if (!code && !error) return null;
+
+  const pending = JSON.parse(sessionStorage.getItem(PENDING_KEY) || "null");
+  sessionStorage.removeItem(PENDING_KEY);
+  window.history.replaceState(null, "", redirectUri());
+
+  if (error) throw new XAuthError(params.get("error_description") || error);
+  if (!pending || pending.state !== params.get("state")) {
+    throw new XAuthError("Sign-in response did not match the pending request. Please try again.");
+  }
+
+  const tokens = await requestToken({
+    grant_type: "authorization_code",
+    code: code!,
+    redirect_uri: redirectUri(),
+    code_verifier: pending.verifier
+  });
+
+  const me = await fetch(ME_URL, { headers: { Authorization: `Bearer ${tokens.access_token}` } })
+    .then(r => r.ok ? r.json() : null)
+    .catch(() => null);
+  if (!me?.data?.id) throw new XAuthError("Signed in, but the account profile could not be loaded.");
+
+  const session: XSession = {
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token,
+    expiresAt: Date.now() + tokens.expires_in * 1000,
+    user: { id: me.data.id, username: me.data.username, name: me.data.name }
+  };
+  saveSession(session);
+  return session;
+}
+
+let pendingRefresh: Promise<XSession> | null = null;
+const sessionClearedListeners = new Set<() => void>();
+
+// Notifies the UI when a rejected refresh ends the session, so it stops showing the user as signed in.
+export function onSessionCleared(listener: () => void): () => void {
+  sessionClearedListeners.add(listener);
+  return () => {
+    sessionClearedListeners.delete(listener);
+  };
+}
+
+// Refresh tokens are single-use, so concurrent callers share one in-flight refresh
+// and the rotated refresh token is persisted before anyone else can use the old one.
+async function refreshSession(session: XSession): Promise<XSession> {
+  if (!session.refreshToken) throw new XAuthError("Session expired. Please sign in again.");
+  if (!pendingRefresh) {
+    pendingRefresh = requestToken({ grant_type: "refresh_token", refresh_token: session.refreshToken })
+      .then(tokens => {
+        const refreshed: XSession = {
+          ...session,
+          accessToken: tokens.access_token,
+          refreshToken: tokens.refresh_token || session.refreshToken,
+          expiresAt: Date.now() + tokens.expires_in * 1000
+        };
+        saveSession(refreshed);
+        return refreshed;
+      })
+      .catch(e => {
+        // Network errors and 5xx responses leave the refresh token usable for the next attempt.
+        if (e instanceof XAuthError && e.grantRejected) {
+          saveSession(null);
+          sessionClearedListeners.forEach(listener => listener());
+        }
+        throw e;
+      })
+      .finally(() => {
+        pendingRefresh = null;
+      });
+  }
+  return pendingRefresh;
+}
+
+export async function getAccessToken(): Promise<string> {
+  const session = loadSession();
+  if (!session) throw new XAuthError("Not signed in.");
+  if (session.expiresAt - Date.now() > REFRESH_MARGIN_MS) return session.accessToken;
+  return (await refreshSession(session)).accessToken;
+}
+
+export async function signOut(): Promise<void> {
+  const session = loadSession();
+  saveSession(null);
+  if (!session) return;
+
+  const revoke = (token: string, hint: string) => fetch(REVOKE_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({ token, token_type_hint: hint, client_id: clientId })
+  }).catch(e => console.error("Failed to revoke token", e));
+
+  await Promise.all([
+    revoke(session.accessToken, "access_token"),
+    session.refreshToken ? revoke(session.refreshToken, "refresh_token") : null
+  ]);
+}
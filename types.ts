@@ -1,5 +1,24 @@
+export type PostType = 'tweet' | 'reply' | 'self-thread' | 'quote' | 'repost' | 'like';
 
-export type PostType = 'tweet' | 'reply' | 'repost';
+export type PostAttribute = 'media' | 'link' | 'hashtag' | 'mention';
+
+export interface PostMention {
+  id: string;
+  screen_name: string;
+}
+
+export interface PostUrl {
+  url: string;
+  expanded_url: string;
+  display_url: string;
+}
+
+export interface PostMedia {
+  id: string;
+  type: 'photo' | 'video' | 'animated_gif';
+  media_url: string;
+  expanded_url?: string;
+}
 
 export interface XPost {
   id: string;
@@ -8,17 +27,131 @@ export interface XPost {
   type: PostType;
   reply_to_user_id?: string;
   reply_to_status_id?: string;
+  reply_to_screen_name?: string;
+  repost_of_id?: string;
+  quoted_status_id?: string;
+  // Set on likes, whose own id is prefixed so it cannot collide with an authored post.
+  liked_tweet_id?: string;
   favorite_count: number;
   retweet_count: number;
+  lang?: string;
+  source?: string;
+  hashtags: string[];
+  mentions: PostMention[];
+  urls: PostUrl[];
+  media: PostMedia[];
+}
+
+// A tweet object exactly as it appears in the archive's tweets.js.
+export type ArchiveTweet = Record<string, unknown>;
+
+export interface XAccount {
+  id: string;
+  username: string;
+  name: string;
+}
+
+export interface XSession {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt: number;
+  user: XAccount;
+}
+
+export interface ArchiveAccount {
+  accountId: string;
+  username: string;
+}
+
+export type ArchiveFileKind = 'manifest' | 'tweets' | 'account' | 'like' | 'following' | 'deleted-tweets';
+
+export interface ImportFileReport {
+  fileName: string;
+  kind: ArchiveFileKind;
+  records: number;
+  imported: number;
+  duplicates: number;
+  note?: string;
+  error?: string;
+}
+
+export interface ImportProgress {
+  phase: 'reading' | 'parsing' | 'done';
+  fileName: string | null;
+  bytesRead: number;
+  totalBytes: number;
+  postsParsed: number;
+}
+
+export type ImportErrorCode = 'bad-zip' | 'no-tweets' | 'parse' | 'cancelled' | 'worker';
+
+export interface ImportErrorInfo {
+  code: ImportErrorCode;
+  message: string;
+  fileName?: string;
+}
+
+export interface ArchiveImport {
+  posts: XPost[] | null;
+  account: ArchiveAccount | null;
+  // Account ids from following.js; null when the upload had none.
+  following: string[] | null;
+  report: ImportFileReport[];
+}
+
+// Units of relative date ranges, as written in older:2y or newer:6m.
+export type AgeUnit = 'd' | 'w' | 'm' | 'y';
+
+export interface RelativeRange {
+  bound: 'older' | 'newer';
+  amount: number;
+  unit: AgeUnit;
 }
 
 export interface ArchiveFilter {
   dateFrom: string;
   dateTo: string;
+  // Replaces dateFrom/dateTo while set, e.g. "older than 2 years" or "within the last 6 months".
+  relative: RelativeRange | null;
+  // IANA zone that date bounds and card timestamps use.
+  timeZone: string;
+  // Instant that relative ranges count back from; null means now. Saved purges pin it,
+  // so a resumed purge shows the same matches it was started with.
+  asOf: number | null;
   keywords: string[];
   postTypes: PostType[];
+  requires: PostAttribute[];
+  // Reply recipients, by user id (or lower-cased screen name when the archive has no id).
+  recipients: string[];
+  query: string;
 }
 
+export type MetricOp = '<' | '<=' | '>' | '>=' | '=';
+
+// AST shared by the query box and the sidebar builder. Spans are offsets into the query text.
+export type QueryNode = (
+  | { kind: 'and' | 'or'; children: QueryNode[] }
+  | { kind: 'not'; child: QueryNode }
+  | { kind: 'text'; value: string; phrase: boolean; prefix: boolean }
+  | { kind: 'regex'; pattern: string; flags: string }
+  | { kind: 'date'; bound: 'from' | 'to'; value: string }
+  | { kind: 'age'; bound: 'older' | 'newer'; amount: number; unit: AgeUnit }
+  | { kind: 'type'; value: PostType }
+  | { kind: 'has'; value: PostAttribute | 'photo' | 'video' }
+  | { kind: 'lang' | 'mention' | 'hashtag' | 'domain' | 'replyto'; value: string }
+  | { kind: 'metric'; metric: 'likes' | 'reposts'; op: MetricOp; value: number }
+) & { span?: [number, number] };
+
+export interface QueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export type PreviewMode = 'all' | 'keywords';
+
+export type FeedSort = 'newest' | 'oldest' | 'most-liked' | 'most-reposted' | 'highest-risk';
+
 export enum ProcessStatus {
   IDLE = 'IDLE',
   LOADING = 'LOADING',
@@ -28,17 +161,275 @@ export enum ProcessStatus {
   PAUSED = 'PAUSED'
 }
 
+export type RiskLevel = 'Low' | 'Medium' | 'High';
+
+export type AuditSentiment = 'Positive' | 'Neutral' | 'Negative' | 'Mixed';
+
+export type AuditCategory =
+  | 'profanity'
+  | 'political'
+  | 'harassment'
+  | 'hate-speech'
+  | 'personal-info'
+  | 'sexual'
+  | 'violence'
+  | 'outdated-opinion'
+  | 'spam'
+  | 'other';
+
+// Offsets index into the post's full_text.
+export interface FlaggedSpan {
+  start: number;
+  end: number;
+  text: string;
+  category: AuditCategory;
+  // Finer-grained name for what matched, e.g. "email address"; set by the PII scanner.
+  label?: string;
+}
+
 export interface AuditResult {
   reason: string;
-  riskLevel: 'Low' | 'Medium' | 'High';
-  sentiment: string;
+  riskLevel: RiskLevel;
+  sentiment: AuditSentiment;
+  categories: AuditCategory[];
+  // 0..1, how sure the provider is of riskLevel.
+  confidence: number;
+  spans: FlaggedSpan[];
+}
+
+export type PiiKind =
+  | 'email'
+  | 'phone'
+  | 'street-address'
+  | 'card-number'
+  | 'iban'
+  | 'ssn'
+  | 'api-key'
+  | 'private-key'
+  | 'crypto-wallet';
+
+export interface PiiScanResult {
+  // AuditResult-shaped findings keyed by post id; only posts with at least one match appear.
+  findings: Map<string, AuditResult>;
+  // Posts containing each kind of finding.
+  counts: Partial<Record<PiiKind, number>>;
+}
+
+export interface TermCount {
+  term: string;
+  count: number;
+  // Query text that selects the posts behind the count.
+  query: string;
+}
+
+export interface EngagementBucket {
+  label: string;
+  likes: number;
+  reposts: number;
+  likesQuery: string;
+  repostsQuery: string;
+}
+
+export interface ArchiveAnalytics {
+  // Every month from the first post to the last, as YYYY-MM, including empty ones.
+  months: { month: string; counts: Partial<Record<PostType, number>>; total: number }[];
+  engagement: EngagementBucket[];
+  hashtags: TermCount[];
+  mentions: TermCount[];
+  domains: TermCount[];
+  words: TermCount[];
+  // Posts per [weekday][hour], Sunday first, in local time.
+  heatmap: number[][];
+}
+
+export interface AuditItemError {
+  postId: string | null;
+  message: string;
+}
+
+export type AuditProviderKind = 'gemini' | 'openai-compatible' | 'rule-based';
+
+export interface AuditSettings {
+  provider: AuditProviderKind;
+  batchSize: number;
+  concurrency: number;
+  gemini: { apiKey: string; model: string };
+  // Any server exposing /chat/completions, e.g. a local llama.cpp or Ollama instance.
+  openai: { baseUrl: string; apiKey: string; model: string };
+}
+
+export interface AuditProgress {
+  total: number;
+  audited: number;
+  // Of audited, how many came from the local cache.
+  cached: number;
+  // Posts whose batch still failed after every retry, or that the model left out.
+  failed: number;
+  // Items the provider returned that failed validation; these posts are counted in failed.
+  invalid: number;
+  cancelled: boolean;
+  lastError: string | null;
+}
+
+export type DeleterMode = 'dry-run' | 'x-api' | 'mock-server';
+
+export type RateLimitProfile = 'conservative' | 'standard' | 'max-allowed';
+
+// Likes are removed by unliking, which X meters separately from deletions.
+export type PurgeOperation = 'delete' | 'unlike';
+
+export interface PurgeOptions {
+  previewMode: PreviewMode;
+  deleterMode: DeleterMode;
+  rateProfile: RateLimitProfile;
+}
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  filters: ArchiveFilter;
+  options: PurgeOptions;
+  updatedAt: number;
+}
+
+export interface RateLimitInfo {
+  limit?: number;
+  remaining: number;
+  resetAt: number;
+}
+
+export type DeleteOutcome = (
+  | { status: 'deleted' }
+  | { status: 'already-gone' }
+  | { status: 'rate-limited'; retryAt: number }
+  | { status: 'auth-failed'; message: string }
+  | { status: 'error'; message: string }
+) & { rateLimit?: RateLimitInfo };
+
+// Skipped items were added to the keep list after the purge was queued.
+export type PurgeItemState = 'pending' | 'done' | 'failed' | 'skipped';
+
+export interface PurgeItem {
+  jobId: string;
+  postId: string;
+  order: number;
+  post: XPost;
+  state: PurgeItemState;
+  attempts: number;
+  lastError?: string;
+  // The original archive object, kept so it can be backed up even after a reload.
+  tweet?: ArchiveTweet;
+}
+
+export interface PurgeJob {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  filters: ArchiveFilter;
+  deleterMode: DeleterMode;
+  rateProfile: RateLimitProfile;
+  retention?: { rules: RetentionRule[]; asOf: number };
+  accountId: string | null;
+  // Journal run this job reports to; absent on jobs saved before journaling existed.
+  runId?: string;
+  total: number;
+  completed: number;
+  failed: number;
+}
+
+export type JournalOutcome = 'deleted' | 'already-gone' | 'skipped' | 'retrying' | 'failed' | 'rate-limited' | 'auth-failed';
+
+// One line of a run's append-only journal; entries are never updated or removed individually.
+export interface JournalEntry {
+  runId: string;
+  postId: string;
+  outcome: JournalOutcome;
+  message?: string;
+  at: number;
+  // Kept on failures so the post can be retried after its purge queue is gone.
+  post?: XPost;
+}
+
+export interface PurgeRun {
+  id: string;
+  filters: ArchiveFilter;
+  retention?: { rules: RetentionRule[]; asOf: number };
+  deleterMode: DeleterMode;
+  rateProfile: RateLimitProfile;
+  accountId: string | null;
+  total: number;
+  // The run whose failed items this run retries.
+  retryOf: string | null;
+  startedAt: number;
+  // Null while the run is in progress or if the tab closed mid-run.
+  endedAt: number | null;
+  endReason: 'completed' | 'stopped' | null;
+}
+
+export type RunItemResult = 'succeeded' | 'skipped' | 'failed';
+
+export interface RunReportItem {
+  postId: string;
+  result: RunItemResult;
+  attempts: number;
+  // Needed more than one attempt, whatever the final result.
+  retried: boolean;
+  message?: string;
+  at: number;
+  post?: XPost;
+}
+
+export interface RunReport {
+  run: PurgeRun;
+  items: RunReportItem[];
+  counts: Record<RunItemResult | 'retried' | 'unfinished', number>;
+}
+
+// Written before a post is deleted so it can be recovered and re-imported.
+export interface BackupRecord {
+  postId: string;
+  tweet: ArchiveTweet;
+  // True when the archive object was unavailable and the tweet was rebuilt from the post.
+  reconstructed: boolean;
+  jobId: string | null;
+  deleterMode: DeleterMode;
+  backedUpAt: number;
+  deletedAt: number | null;
+}
+
+export type RetentionAction = 'keep' | 'delete';
+
+// Rules match with the filter query language; olderThanDays is measured back from the plan's asOf.
+export interface RetentionRule {
+  id: string;
+  action: RetentionAction;
+  query: string;
+  olderThanDays: number | null;
+}
+
+export interface RetentionPlanEntry {
+  postId: string;
+  ruleId: string;
+}
+
+export interface RetentionResult {
+  asOf: number;
+  // Posts to delete, oldest first, each with the delete rule that selected it.
+  plan: RetentionPlanEntry[];
+  // Posts removed by each delete rule, or protected from deletion by each keep rule.
+  ruleCounts: Record<string, number>;
+  error?: { ruleId: string; error: QueryError };
 }
 
 export interface PurgeProgress {
   total: number;
   completed: number;
+  failed: number;
+  skipped: number;
   remaining: number;
   startTime: number;
   currentType: PostType | null;
-  secondsToNext: number;
+  lastOutcome: DeleteOutcome['status'] | null;
+  nextRequestAt: number | null;
+  estimatedEndAt: number | null;
 }
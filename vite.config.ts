@@ -11,8 +11,8 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.X_CLIENT_ID': JSON.stringify(env.X_CLIENT_ID),
+        'process.env.X_MOCK_API_URL': JSON.stringify(env.X_MOCK_API_URL)
       },
       resolve: {
         alias: {
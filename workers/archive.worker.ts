@@ -0,0 +1,117 @@
+import { importArchive, ArchiveImportError } from '../services/archiveImporter';
+import { filterPosts, FilterResult } from '../services/postFilter';
+import { evaluateRetention } from '../services/retention';
+import { scanPosts } from '../services/piiScanner';
+import { analyzePosts } from '../services/analytics';
+import { XPost, ArchiveFilter, PreviewMode, ArchiveImport, ImportProgress, ImportErrorInfo, RetentionRule, RetentionResult, PiiScanResult, ArchiveTweet, ArchiveAnalytics } from '../types';
+
+// Owns the parsed archive so large post sets are parsed and filtered off the main thread.
+
+export type ArchiveWorkerRequest =
+  | { type: 'import'; requestId: number; files: File[] }
+  | { type: 'cancel-import'; requestId: number }
+  | { type: 'remove-posts'; ids: string[] }
+  | { type: 'filter'; requestId: number; filters: ArchiveFilter; previewMode: PreviewMode }
+  | { type: 'retention'; requestId: number; rules: RetentionRule[]; asOf: number; timeZone: string }
+  | { type: 'scan-pii'; requestId: number }
+  | { type: 'analyze'; requestId: number; timeZone: string }
+  | { type: 'get-tweets'; requestId: number; ids: string[] };
+
+export type ArchiveWorkerResponse =
+  | { type: 'import-progress'; requestId: number; progress: ImportProgress }
+  | { type: 'import-done'; requestId: number; result: ArchiveImport }
+  | { type: 'import-error'; requestId: number; error: ImportErrorInfo }
+  | { type: 'filter-done'; requestId: number; result: FilterResult }
+  | { type: 'retention-done'; requestId: number; result: RetentionResult }
+  | { type: 'pii-done'; requestId: number; result: PiiScanResult }
+  | { type: 'analyze-done'; requestId: number; result: ArchiveAnalytics }
+  | { type: 'tweets-done'; requestId: number; tweets: Map<string, ArchiveTweet> }
+  // A filter, retention, scan, analysis or lookup request that threw.
+  | { type: 'error'; requestId: number; error: ImportErrorInfo };
+
+const PROGRESS_INTERVAL_MS = 100;
+
+let posts: XPost[] = [];
+// Original archive objects by post id; they stay in the worker until a purge needs them for backups.
+let tweets = new Map<string, ArchiveTweet>();
+const cancelledImports = new Set<number>();
+
+const respond = (message: ArchiveWorkerResponse) => (self as unknown as Worker).postMessage(message);
+
+// Fails just this request; an uncaught throw would take down every pending one, imports included.
+function answer(requestId: number, compute: () => ArchiveWorkerResponse) {
+  try {
+    respond(compute());
+  } catch (e) {
+    respond({ type: 'error', requestId, error: { code: 'worker', message: e instanceof Error ? e.message : String(e) } });
+  }
+}
+
+async function runImport(requestId: number, files: File[]) {
+  let lastProgressAt = 0;
+  const imported = new Map<string, ArchiveTweet>();
+  try {
+    const result = await importArchive(files, {
+      isCancelled: () => cancelledImports.has(requestId),
+      onTweet: (id, tweet) => imported.set(id, tweet),
+      onProgress: progress => {
+        const now = Date.now();
+        if (progress.phase === 'parsing' && now - lastProgressAt < PROGRESS_INTERVAL_MS) return;
+        lastProgressAt = now;
+        respond({ type: 'import-progress', requestId, progress });
+      }
+    });
+    if (result.posts) {
+      posts = result.posts;
+      tweets = imported;
+    }
+    respond({ type: 'import-done', requestId, result });
+  } catch (e) {
+    const error: ImportErrorInfo = e instanceof ArchiveImportError
+      ? { code: e.code, message: e.message, fileName: e.fileName }
+      : { code: 'parse', message: e instanceof Error ? e.message : String(e) };
+    respond({ type: 'import-error', requestId, error });
+  } finally {
+    cancelledImports.delete(requestId);
+  }
+}
+
+self.onmessage = (event: MessageEvent<ArchiveWorkerRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'import':
+      runImport(message.requestId, message.files);
+      break;
+    case 'cancel-import':
+      cancelledImports.add(message.requestId);
+      break;
+    case 'remove-posts': {
+      const ids = new Set(message.ids);
+      posts = posts.filter(p => !ids.has(p.id));
+      message.ids.forEach(id => tweets.delete(id));
+      break;
+    }
+    case 'filter':
+      answer(message.requestId, () => ({ type: 'filter-done', requestId: message.requestId, result: filterPosts(posts, message.filters, message.previewMode) }));
+      break;
+    case 'retention':
+      answer(message.requestId, () => ({ type: 'retention-done', requestId: message.requestId, result: evaluateRetention(posts, message.rules, message.asOf, message.timeZone) }));
+      break;
+    case 'scan-pii':
+      answer(message.requestId, () => ({ type: 'pii-done', requestId: message.requestId, result: scanPosts(posts) }));
+      break;
+    case 'analyze':
+      answer(message.requestId, () => ({ type: 'analyze-done', requestId: message.requestId, result: analyzePosts(posts, message.timeZone) }));
+      break;
+    case 'get-tweets':
+      answer(message.requestId, () => {
+        const found = new Map<string, ArchiveTweet>();
+        message.ids.forEach(id => {
+          const tweet = tweets.get(id);
+          if (tweet) found.set(id, tweet);
+        });
+        return { type: 'tweets-done', requestId: message.requestId, tweets: found };
+      });
+      break;
+  }
+};